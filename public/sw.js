@@ -0,0 +1,86 @@
+// public/sw.js
+// Offline layer for the app shell and product images. Data files under /data/
+// are left alone: src/dataCache.ts keeps those in IndexedDB.
+const SHELL = "af-shell-v1";
+const IMAGES = "af-images-v2"; // v1 could hold opaque error responses
+const MAX_IMAGES = 600;        // oldest entries are dropped past this
+const FALLBACK = "/img/fallback.svg";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(SHELL).then((c) => c.addAll(["/", FALLBACK])));
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k !== SHELL && k !== IMAGES).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const req = event.request;
+  if (req.method !== "GET") return;
+  const url = new URL(req.url);
+
+  if (req.destination === "image") {
+    event.respondWith(imageFirst(req));
+  } else if (url.origin === self.location.origin && !url.pathname.startsWith("/data/")) {
+    event.respondWith(networkFirst(req));
+  }
+});
+
+// Images: cached copy if we have one, otherwise network (and keep it).
+// Only ok responses are kept: an opaque response may be an error we'd then serve forever.
+// A failed request stays failed so the <img> onError swaps in the fallback; the worker
+// serves the fallback itself only while offline.
+async function imageFirst(req) {
+  const cache = await caches.open(IMAGES);
+  const hit = await cache.match(req);
+  if (hit) return hit;
+  try {
+    const res = await fetchImage(req);
+    if (res.ok) {
+      await cache.put(req, res.clone());
+      await trimCache(cache, MAX_IMAGES);
+    }
+    return res;
+  } catch {
+    if (self.navigator.onLine) return Response.error();
+    return (await caches.match(FALLBACK)) || Response.error();
+  }
+}
+
+// Cross-origin <img> requests come back opaque; ask with CORS first (the Shopify
+// CDN allows it) so the status is readable, and fall back to the plain request
+async function fetchImage(req) {
+  if (new URL(req.url).origin === self.location.origin) return fetch(req);
+  try {
+    return await fetch(req.url, { mode: "cors", credentials: "omit" });
+  } catch {
+    return fetch(req);
+  }
+}
+
+// Cache keys come back in insertion order, so the first ones are the oldest
+async function trimCache(cache, max) {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - max)).map((k) => cache.delete(k)));
+}
+
+// App shell (index.html, built JS/CSS): network when online, last copy when not
+async function networkFirst(req) {
+  const cache = await caches.open(SHELL);
+  try {
+    const res = await fetch(req);
+    if (res.ok) cache.put(req, res.clone());
+    return res;
+  } catch {
+    const hit = await cache.match(req);
+    if (hit) return hit;
+    if (req.mode === "navigate") return (await cache.match("/")) || Response.error();
+    return Response.error();
+  }
+}
@@ -0,0 +1,102 @@
+// scripts/sweep/cli.ts
+// Nightly Shopify → CSV sweep.
+//
+//   SHOP=my-shop.myshopify.com TOKEN=… npm run sweep
+//   npm run sweep -- --mock scripts/sweep/fixtures/products.json --out tmp/sweep --page-size 2
+//
+// Writes products.csv, descriptions.json, meta.json and sweep_report.json to
+// --out (default public/data). Conflicting explicit aliases fail the run.
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { BASE_ALIASES_SCHEMA, parseCSV, PRODUCTS_SCHEMA, readTable, toCSV } from "../../src/dataSchema";
+import type { Meta } from "../../src/meta";
+import type { SweepReport } from "../../src/sweepReport";
+import { startMockShopify, type MockShopify } from "./mockShopify";
+import { fetchAllProducts, type ShopifyProduct } from "./shopify";
+import { buildAliasTable, sweepProducts } from "./transform";
+
+const { values: args } = parseArgs({
+  options: {
+    out: { type: "string", default: path.join("public", "data") },
+    bases: { type: "string", default: path.join("public", "data", "base_products.csv") },
+    aliases: { type: "string", default: path.join("public", "data", "base_aliases.csv") },
+    mock: { type: "string" },
+    "page-size": { type: "string", default: "250" },
+  },
+});
+
+// First column of base_products.csv
+function readBaseCodes(file: string): string[] {
+  const [, ...rows] = parseCSV(readFileSync(file, "utf8"));
+  return rows.map((r) => (r[0] || "").trim()).filter(Boolean);
+}
+
+// base_aliases.csv is optional
+function readExplicitAliases(file: string) {
+  if (!existsSync(file)) return [];
+  const { rows, issues } = readTable(BASE_ALIASES_SCHEMA, readFileSync(file, "utf8"));
+  for (const i of issues) console.warn(`${file}: ${i.message}`);
+  return rows;
+}
+
+async function main() {
+  let mock: MockShopify | null = null;
+  let baseUrl: string;
+  let token: string;
+
+  if (args.mock) {
+    const fixture = JSON.parse(readFileSync(args.mock, "utf8")) as { products: ShopifyProduct[] };
+    mock = await startMockShopify(fixture.products);
+    baseUrl = mock.url;
+    token = "mock-token";
+  } else {
+    const { SHOP, TOKEN } = process.env;
+    if (!SHOP || !TOKEN) throw new Error("Missing SHOPIFY_SHOP or SHOPIFY_ADMIN_TOKEN (SHOP / TOKEN env vars).");
+    baseUrl = `https://${SHOP}`;
+    token = TOKEN;
+  }
+
+  try {
+    const aliasTable = buildAliasTable(readBaseCodes(args.bases), readExplicitAliases(args.aliases));
+    for (const c of aliasTable.collisions) {
+      console.warn(`alias ${c.alias}: ${c.base_codes.join(" / ")} — ${c.resolution}`);
+    }
+    if (aliasTable.collisions.some((c) => c.fatal)) throw new Error(`Fix ${args.aliases} before sweeping.`);
+
+    const shopProducts = await fetchAllProducts({ baseUrl, token, pageSize: Number(args["page-size"]) || 250 });
+    const { products, descriptions, report } = sweepProducts(shopProducts, aliasTable);
+    const fullReport: SweepReport = {
+      generated_at: new Date().toISOString(),
+      ...report,
+      alias_collisions: aliasTable.collisions.map(({ alias, base_codes, resolution }) => ({ alias, base_codes, resolution })),
+    };
+
+    const columns = Object.keys(PRODUCTS_SCHEMA.columns) as (keyof typeof PRODUCTS_SCHEMA.columns)[];
+    const money = (n: number | null) => (n === null ? "" : n.toFixed(2));
+    const csv = toCSV([
+      columns,
+      ...products.map((p) => columns.map((c) => (c === "price" || c === "compare_at_price" ? money(p[c]) : p[c]))),
+    ]);
+
+    mkdirSync(args.out, { recursive: true });
+    writeFileSync(path.join(args.out, "products.csv"), csv, "utf8");
+    writeFileSync(path.join(args.out, "descriptions.json"), JSON.stringify(descriptions, null, 2), "utf8");
+    const meta: Meta = { last_updated: new Date().toISOString(), shop: args.mock ? undefined : process.env.SHOP };
+    writeFileSync(path.join(args.out, "meta.json"), JSON.stringify(meta), "utf8");
+    writeFileSync(path.join(args.out, "sweep_report.json"), JSON.stringify(fullReport, null, 2), "utf8");
+
+    console.log(
+      `Read ${shopProducts.length} Shopify products (${report.skipped.length} without a base tag, ` +
+        `${report.ambiguous.length} ambiguous); wrote ${products.length} variants to ` +
+        `${path.join(args.out, "products.csv")}, descriptions.json, meta.json, sweep_report.json`
+    );
+  } finally {
+    await mock?.close();
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,50 @@
+// scripts/sweep/mockShopify.ts
+// A local stand-in for /admin/api/<version>/products.json that serves a
+// fixture file with the same Link-header pagination as Shopify.
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { ShopifyProduct } from "./shopify";
+
+export type MockShopify = { url: string; close: () => Promise<void> };
+
+export async function startMockShopify(products: ShopifyProduct[], token = "mock-token"): Promise<MockShopify> {
+  const server = createServer((req, res) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    if (!/^\/admin\/api\/[^/]+\/products\.json$/.test(url.pathname)) {
+      res.writeHead(404).end(JSON.stringify({ errors: "Not Found" }));
+      return;
+    }
+    if (req.headers["x-shopify-access-token"] !== token) {
+      res.writeHead(401).end(JSON.stringify({ errors: "Invalid API key or access token" }));
+      return;
+    }
+
+    const limit = Math.min(250, Number(url.searchParams.get("limit")) || 50);
+    const status = url.searchParams.get("status");
+    const offset = Number(url.searchParams.get("page_info")) || 0; // real page_info is opaque; an offset will do
+    const matching = status ? products.filter((p) => p.status === status) : products;
+    const page = matching.slice(offset, offset + limit);
+
+    const pageUrl = (at: number) => {
+      const u = new URL(url.href.replace("http://localhost", `http://${req.headers.host}`));
+      u.searchParams.set("page_info", String(at));
+      return u.href;
+    };
+    const links: string[] = [];
+    if (offset > 0) links.push(`<${pageUrl(Math.max(0, offset - limit))}>; rel="previous"`);
+    if (offset + limit < matching.length) links.push(`<${pageUrl(offset + limit)}>; rel="next"`);
+
+    res.writeHead(200, {
+      "Content-Type": "application/json",
+      ...(links.length ? { Link: links.join(", ") } : {}),
+    });
+    res.end(JSON.stringify({ products: page }));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve, reject) => server.close((e) => (e ? reject(e) : resolve()))),
+  };
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { nextPageUrl } from "./shopify";
+
+describe("nextPageUrl", () => {
+  const base = "https://shop.example/admin/api/2023-10/products.json?limit=2";
+
+  it("returns the rel=next link", () => {
+    expect(nextPageUrl(`<${base}&page_info=abc>; rel="next"`)).toBe(`${base}&page_info=abc`);
+  });
+
+  it("skips rel=previous", () => {
+    const link = `<${base}&page_info=abc>; rel="previous", <${base}&page_info=def>; rel="next"`;
+    expect(nextPageUrl(link)).toBe(`${base}&page_info=def`);
+  });
+
+  it("returns null when no link is rel=next", () => {
+    expect(nextPageUrl(`<${base}&page_info=abc>; rel="previous"`)).toBeNull();
+  });
+
+  it("returns null without a Link header", () => {
+    expect(nextPageUrl(null)).toBeNull();
+    expect(nextPageUrl("")).toBeNull();
+  });
+});
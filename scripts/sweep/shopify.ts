@@ -0,0 +1,76 @@
+// scripts/sweep/shopify.ts
+// The slice of the Shopify Admin REST API the sweep reads: products of every
+// status (drafts and archived ones become disabled rows), paged with the Link header.
+
+export type ShopifyOption = { name: string; position?: number };
+
+export type ShopifyImage = { id: number; src: string };
+
+export type ShopifyVariant = {
+  id: number;
+  sku: string | null;
+  title: string;
+  option1: string | null;
+  option2: string | null;
+  option3: string | null;
+  image_id: number | null;
+  price: string;
+  compare_at_price: string | null;
+  inventory_quantity: number;
+  inventory_management: string | null; // null when Shopify doesn't track stock
+};
+
+export type ShopifyProduct = {
+  id: number;
+  title: string;
+  handle: string;
+  status: string;
+  tags: string; // comma-separated
+  body_html: string | null;
+  options: ShopifyOption[];
+  variants: ShopifyVariant[];
+  images: ShopifyImage[];
+  image: ShopifyImage | null;
+};
+
+export type ShopifyConnection = {
+  baseUrl: string; // https://<shop> (or the mock server)
+  token: string;
+  apiVersion?: string;
+  pageSize?: number;
+};
+
+export const API_VERSION = "2023-10";
+
+export async function fetchAllProducts({
+  baseUrl,
+  token,
+  apiVersion = API_VERSION,
+  pageSize = 250,
+}: ShopifyConnection): Promise<ShopifyProduct[]> {
+  let url: string | null = `${baseUrl}/admin/api/${apiVersion}/products.json?limit=${pageSize}`;
+  const out: ShopifyProduct[] = [];
+  while (url) {
+    const res = await fetch(url, {
+      headers: {
+        "X-Shopify-Access-Token": token,
+        "Content-Type": "application/json",
+      },
+    });
+    if (!res.ok) {
+      const body = await res.text();
+      throw new Error(`Shopify ${res.status}: ${body}`);
+    }
+    const data = (await res.json()) as { products?: ShopifyProduct[] };
+    out.push(...(data.products || []));
+    url = nextPageUrl(res.headers.get("link"));
+  }
+  return out;
+}
+
+// <https://…&page_info=abc>; rel="previous", <https://…&page_info=def>; rel="next"
+export function nextPageUrl(link: string | null): string | null {
+  if (!link) return null;
+  const m = link.match(/<([^>]+)>;\s*rel="next"/);
+  return m ? m[1] : null;
+}
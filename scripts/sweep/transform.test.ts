@@ -0,0 +1,191 @@
+import { describe, expect, it } from "vitest";
+import type { ShopifyProduct, ShopifyVariant } from "./shopify";
+import { baseAliases, buildAliasTable, matchBase, sweepProducts, variantColorSize } from "./transform";
+
+function product(fields: Partial<ShopifyProduct>): ShopifyProduct {
+  return {
+    id: 1,
+    title: "Test tee",
+    handle: "test-tee",
+    status: "active",
+    tags: "",
+    body_html: null,
+    options: [],
+    variants: [],
+    images: [],
+    image: null,
+    ...fields,
+  };
+}
+
+function variant(option1: string | null, option2: string | null = null): ShopifyVariant {
+  return {
+    id: 10,
+    sku: "SKU-1",
+    title: [option1, option2].filter(Boolean).join(" / "),
+    option1,
+    option2,
+    option3: null,
+    image_id: null,
+    price: "29.50",
+    compare_at_price: null,
+    inventory_quantity: 0,
+    inventory_management: null,
+  };
+}
+
+describe("baseAliases", () => {
+  it("adds the part after the last underscore", () => {
+    expect(baseAliases("SS_SATU001")).toEqual([
+      { alias: "SS_SATU001", rule: "code" },
+      { alias: "SATU001", rule: "after_underscore" },
+    ]);
+  });
+
+  it("strips a 2-letter brand prefix", () => {
+    expect(baseAliases("CHOW1086")).toEqual([
+      { alias: "CHOW1086", rule: "code" },
+      { alias: "OW1086", rule: "brand_stripped" },
+    ]);
+    expect(baseAliases("CHMC1086").map((a) => a.alias)).toEqual(["CHMC1086", "MC1086"]);
+  });
+
+  it("upper-cases the code", () => {
+    expect(baseAliases("cc1717")[0]).toEqual({ alias: "CC1717", rule: "code" });
+  });
+});
+
+describe("buildAliasTable", () => {
+  it("keeps OW1086 and MC1086 apart", () => {
+    const { aliases, collisions } = buildAliasTable(["CHOW1086", "CHMC1086", "CHMC1087"]);
+    expect(aliases.get("OW1086")).toEqual({ base_code: "CHOW1086", rule: "brand_stripped" });
+    expect(aliases.get("MC1086")).toEqual({ base_code: "CHMC1086", rule: "brand_stripped" });
+    expect(aliases.get("MC1087")).toEqual({ base_code: "CHMC1087", rule: "brand_stripped" });
+    expect(collisions).toEqual([]);
+  });
+
+  it("drops a derived alias two bases claim (SATU001)", () => {
+    const { aliases, collisions } = buildAliasTable(["SS_SATU001", "XX_SATU001"]);
+    expect(aliases.has("SATU001")).toBe(false);
+    expect(aliases.get("SS_SATU001")?.base_code).toBe("SS_SATU001");
+    expect(collisions).toEqual([
+      {
+        alias: "SATU001",
+        base_codes: ["SS_SATU001", "XX_SATU001"],
+        resolution: "dropped; add it to base_aliases.csv to pick one",
+        fatal: false,
+      },
+    ]);
+  });
+
+  it("lets an explicit alias settle the SATU001 collision", () => {
+    const { aliases, collisions } = buildAliasTable(
+      ["SS_SATU001", "XX_SATU001"],
+      [{ alias: "satu001", base_code: "SS_SATU001" }]
+    );
+    expect(aliases.get("SATU001")).toEqual({ base_code: "SS_SATU001", rule: "explicit" });
+    expect(collisions).toEqual([
+      { alias: "SATU001", base_codes: ["SS_SATU001", "XX_SATU001"], resolution: "SS_SATU001 (explicit)", fatal: false },
+    ]);
+  });
+
+  it("prefers a full code over a stripped alias", () => {
+    const { aliases, collisions } = buildAliasTable(["CHMC1086", "MC1086"]);
+    expect(aliases.get("MC1086")).toEqual({ base_code: "MC1086", rule: "code" });
+    expect(collisions).toEqual([
+      { alias: "MC1086", base_codes: ["CHMC1086", "MC1086"], resolution: "MC1086 (code)", fatal: false },
+    ]);
+  });
+
+  it("reports conflicting or dangling explicit aliases as fatal", () => {
+    const conflicting = buildAliasTable(
+      ["CHOW1086", "CHMC1086"],
+      [
+        { alias: "1086", base_code: "CHOW1086" },
+        { alias: "1086", base_code: "CHMC1086" },
+      ]
+    );
+    expect(conflicting.aliases.has("1086")).toBe(false);
+    expect(conflicting.collisions).toEqual([
+      { alias: "1086", base_codes: ["CHOW1086", "CHMC1086"], resolution: "conflicting explicit aliases", fatal: true },
+    ]);
+
+    const dangling = buildAliasTable(["CC1717"], [{ alias: "1717", base_code: "CC9999" }]);
+    expect(dangling.collisions.map((c) => c.fatal)).toEqual([true]);
+  });
+});
+
+describe("matchBase", () => {
+  const table = buildAliasTable(
+    ["SS_SATU001", "BC3413", "CC1717", "CHOW1086", "CHMC1086"],
+    [{ alias: "SATU001", base_code: "SS_SATU001" }]
+  );
+
+  it("matches tags case-insensitively", () => {
+    expect(matchBase(product({ tags: "satu001" }), table).chosen).toEqual({
+      tag: "SATU001",
+      base_code: "SS_SATU001",
+      rule: "explicit",
+    });
+  });
+
+  it("picks the strongest rule and keeps every candidate", () => {
+    const { chosen, candidates } = matchBase(product({ tags: "Coffee, 3413, CC1717" }), table);
+    expect(chosen).toEqual({ tag: "CC1717", base_code: "CC1717", rule: "code" });
+    expect(candidates.map((c) => c.base_code)).toEqual(["BC3413", "CC1717"]);
+  });
+
+  it("tells OW1086 from MC1086", () => {
+    expect(matchBase(product({ tags: "OW1086" }), table).chosen?.base_code).toBe("CHOW1086");
+    expect(matchBase(product({ tags: "MC1086, Hats" }), table).chosen?.base_code).toBe("CHMC1086");
+  });
+
+  it("takes the first tag when tags name different bases by the same rule", () => {
+    const { chosen, candidates } = matchBase(product({ tags: "MC1086, OW1086" }), table);
+    expect(chosen).toEqual({ tag: "MC1086", base_code: "CHMC1086", rule: "brand_stripped" });
+    expect(candidates.map((c) => c.base_code)).toEqual(["CHMC1086", "CHOW1086"]);
+  });
+
+  it("returns no match for unrelated tags", () => {
+    expect(matchBase(product({ tags: "Stickers" }), table)).toEqual({ chosen: null, candidates: [] });
+  });
+});
+
+describe("variantColorSize", () => {
+  it("reads Color/Size by option name", () => {
+    const p = product({ options: [{ name: "Color" }, { name: "Size" }] });
+    expect(variantColorSize(p, variant("Black", "XL"))).toEqual({ color: "Black", size: "XL" });
+  });
+
+  it("handles swapped options and the Colour spelling", () => {
+    const p = product({ options: [{ name: "Size" }, { name: "Colour" }] });
+    expect(variantColorSize(p, variant("M", "Natural"))).toEqual({ color: "Natural", size: "M" });
+  });
+
+  it("falls back to option1/option2 when names don't say", () => {
+    const p = product({ options: [{ name: "Title" }] });
+    expect(variantColorSize(p, variant("Default Title"))).toEqual({ color: "Default Title", size: "" });
+  });
+});
+
+describe("sweepProducts", () => {
+  const table = buildAliasTable(["CC1717"]);
+
+  it("takes descriptions from active products only", () => {
+    const { products, descriptions } = sweepProducts(
+      [
+        product({ id: 1, tags: "CC1717", body_html: "<p>Live copy.</p>", variants: [variant("Black", "M")] }),
+        product({
+          id: 2,
+          status: "archived",
+          tags: "CC1717",
+          body_html: "<p>Much longer copy from an old, archived listing.</p>",
+          variants: [variant("White", "L")],
+        }),
+      ],
+      table
+    );
+    expect(descriptions).toEqual({ CC1717: "Live copy." });
+    expect(products.map((p) => p.enabled)).toEqual([true, false]);
+  });
+});
@@ -0,0 +1,199 @@
+// scripts/sweep/transform.ts
+// Shopify products → products.csv rows and one description per base code.
+// Pure functions; the CLI does the I/O.
+import { cleanDescription, htmlToText } from "../../src/descriptionPipeline";
+import type { Descriptions } from "../../src/loadDescriptions";
+import type { Product } from "../../src/loadProducts";
+import type { AliasRule, SweepReport, TagMatch } from "../../src/sweepReport";
+import type { ShopifyProduct, ShopifyVariant } from "./shopify";
+
+/* ---------- base code aliases ---------- */
+
+const RULE_RANK: Record<AliasRule, number> = { explicit: 0, code: 1, after_underscore: 2, brand_stripped: 2 };
+
+export type AliasCollision = SweepReport["alias_collisions"][number] & { fatal: boolean };
+
+export type AliasTable = {
+  aliases: Map<string, { base_code: string; rule: AliasRule }>;
+  collisions: AliasCollision[];
+};
+
+// Product tags name a base by its full code or a model-only alias:
+//   SS_SATU001 -> SATU001 (after the last underscore)
+//   CHOW1086   -> OW1086  (2-letter brand prefix stripped)
+export function baseAliases(code: string): { alias: string; rule: AliasRule }[] {
+  const U = code.toUpperCase();
+  const out: { alias: string; rule: AliasRule }[] = [{ alias: U, rule: "code" }];
+  const afterUnderscore = U.split("_").pop();
+  if (afterUnderscore && afterUnderscore !== U) out.push({ alias: afterUnderscore, rule: "after_underscore" });
+  const stripBrand = U.replace(/^[A-Z]{2}_?/, "");
+  if (stripBrand && stripBrand !== U && stripBrand !== afterUnderscore) out.push({ alias: stripBrand, rule: "brand_stripped" });
+  return out;
+}
+
+// Explicit aliases (base_aliases.csv) win over full codes, which win over derived
+// aliases. A derived alias claimed by two bases is dropped rather than guessed;
+// conflicting explicit aliases are fatal.
+export function buildAliasTable(baseCodes: string[], explicit: { alias: string; base_code: string }[] = []): AliasTable {
+  const claims = new Map<string, { base_code: string; rule: AliasRule }[]>();
+  const claim = (alias: string, base_code: string, rule: AliasRule) => {
+    const list = claims.get(alias) ?? [];
+    if (!list.some((c) => c.base_code === base_code && c.rule === rule)) list.push({ base_code, rule });
+    claims.set(alias, list);
+  };
+  for (const code of baseCodes) for (const { alias, rule } of baseAliases(code)) claim(alias, code, rule);
+  for (const e of explicit) claim(e.alias.trim().toUpperCase(), e.base_code.trim(), "explicit");
+
+  const known = new Set(baseCodes);
+  const aliases: AliasTable["aliases"] = new Map();
+  const collisions: AliasCollision[] = [];
+
+  for (const [alias, list] of claims) {
+    for (const c of list) {
+      if (c.rule === "explicit" && !known.has(c.base_code)) {
+        collisions.push({ alias, base_codes: [c.base_code], resolution: "explicit alias points at an unknown base", fatal: true });
+      }
+    }
+    const valid = list.filter((c) => known.has(c.base_code));
+    if (valid.length === 0) continue;
+    const best = Math.min(...valid.map((c) => RULE_RANK[c.rule]));
+    const top = valid.filter((c) => RULE_RANK[c.rule] === best);
+    const bases = Array.from(new Set(top.map((c) => c.base_code)));
+    const all = Array.from(new Set(valid.map((c) => c.base_code)));
+
+    if (bases.length > 1) {
+      const fatal = top[0].rule === "explicit";
+      collisions.push({
+        alias,
+        base_codes: bases,
+        resolution: fatal ? "conflicting explicit aliases" : "dropped; add it to base_aliases.csv to pick one",
+        fatal,
+      });
+      continue;
+    }
+    if (all.length > 1) {
+      collisions.push({ alias, base_codes: all, resolution: `${bases[0]} (${top[0].rule})`, fatal: false });
+    }
+    aliases.set(alias, { base_code: bases[0], rule: top[0].rule });
+  }
+
+  return { aliases, collisions };
+}
+
+export function normalizeTagSet(tags: string | null | undefined): Set<string> {
+  return new Set(
+    (tags || "")
+      .split(",")
+      .map((t) => t.trim().toUpperCase())
+      .filter(Boolean)
+  );
+}
+
+// Every tag that names a base; `chosen` is the strongest rule (first tag on a tie)
+export function matchBase(p: ShopifyProduct, table: AliasTable): { chosen: TagMatch | null; candidates: TagMatch[] } {
+  const candidates: TagMatch[] = [];
+  for (const tag of normalizeTagSet(p.tags)) {
+    const hit = table.aliases.get(tag);
+    if (hit) candidates.push({ tag, ...hit });
+  }
+  const chosen = candidates.reduce<TagMatch | null>(
+    (best, c) => (!best || RULE_RANK[c.rule] < RULE_RANK[best.rule] ? c : best),
+    null
+  );
+  return { chosen, candidates };
+}
+
+/* ---------- variants ---------- */
+
+// Color/size by option name ("Color", "Colour", "Size"), else option1/option2
+export function variantColorSize(product: ShopifyProduct, variant: ShopifyVariant): { color: string; size: string } {
+  const names = (product.options || []).map((o) => (o.name || "").toLowerCase());
+  const vals = [variant.option1, variant.option2, variant.option3];
+  let color = "";
+  let size = "";
+  for (let i = 0; i < names.length; i++) {
+    const n = names[i];
+    const v = (vals[i] || "").toString();
+    if (!n) continue;
+    if (!color && (n.includes("color") || n.includes("colour"))) color = v;
+    if (!size && n.includes("size")) size = v;
+  }
+  if (!color) color = (vals[0] || "").toString();
+  if (!size) size = (vals[1] || "").toString();
+  return { color, size };
+}
+
+export function variantImage(product: ShopifyProduct, variant: ShopifyVariant): string {
+  if (variant.image_id) {
+    const img = (product.images || []).find((i) => i.id === variant.image_id);
+    if (img?.src) return img.src;
+  }
+  return product?.image?.src || "";
+}
+
+// Shopify sends money as strings ("29.50"); compare_at_price is often null
+function toNumber(s: string | null | undefined): number | null {
+  const n = s == null || s === "" ? NaN : Number(s);
+  return Number.isFinite(n) ? n : null;
+}
+
+/* ---------- sweep ---------- */
+
+export type SweepResult = {
+  products: Product[];
+  descriptions: Descriptions; // base code -> longest description among active products
+  report: Omit<SweepReport, "generated_at" | "alias_collisions">;
+};
+
+export function sweepProducts(shopProducts: ShopifyProduct[], table: AliasTable): SweepResult {
+  const products: Product[] = [];
+  const descriptions: Descriptions = {};
+  const report: SweepResult["report"] = {
+    products_read: shopProducts.length,
+    variants_written: 0,
+    matched: [],
+    skipped: [],
+    ambiguous: [],
+  };
+
+  for (const p of shopProducts) {
+    const ref = { product_id: p.id, title: p.title, handle: p.handle };
+    const { chosen, candidates } = matchBase(p, table);
+    if (!chosen) {
+      report.skipped.push({ ...ref, tags: p.tags || "" });
+      continue;
+    }
+    report.matched.push({ ...ref, ...chosen });
+    if (new Set(candidates.map((c) => c.base_code)).size > 1) report.ambiguous.push({ ...ref, chosen, candidates });
+
+    const baseCode = chosen.base_code;
+    // drafts and archived products still become (disabled) rows, but their copy may be stale
+    if (p.status === "active") {
+      const textDesc = cleanDescription(htmlToText(p.body_html));
+      if (textDesc.length > (descriptions[baseCode] || "").length) descriptions[baseCode] = textDesc;
+    }
+
+    for (const v of p.variants || []) {
+      const { color, size } = variantColorSize(p, v);
+      products.push({
+        sku: (v.sku || `${p.handle}-${v.id}`).toString(),
+        base_code: baseCode,
+        title: `${p.title} — ${v.title || [color, size].filter(Boolean).join(" ")}`.trim(),
+        color,
+        size,
+        image_src: variantImage(p, v),
+        enabled: p.status === "active",
+        price: toNumber(v.price),
+        compare_at_price: toNumber(v.compare_at_price),
+        inventory_quantity: v.inventory_management ? v.inventory_quantity : null,
+        product_id: String(p.id),
+        variant_id: String(v.id),
+        handle: p.handle,
+        tags: p.tags || "",
+      });
+    }
+  }
+
+  report.variants_written = products.length;
+  return { products, descriptions, report };
+}
@@ -1,69 +1,112 @@
-import { useEffect, useMemo, useState, type CSSProperties } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import CatalogEditor from "./CatalogEditor";
+import CatalogSearch from "./CatalogSearch";
+import { copyToClipboard } from "./clipboard";
+import CommandPalette, { type PaletteItem } from "./CommandPalette";
+import CompareView, { MAX_COMPARE } from "./CompareView";
+import { buildCopyBlock, buildDescription, descriptionSource, type CopyInput } from "./copyBlock";
+import { COPY_FORMAT_LABEL, formatCopy, type CopyFormat } from "./copyFormats";
+import DataHealth from "./DataHealth";
+import DescriptionEditor from "./DescriptionEditor";
+import { LINT_KIND_LABEL, lintDescription } from "./descriptionLint";
+import {
+  applyOverrides,
+  clearOverrideEdits,
+  loadDescriptionOverrides,
+  loadOverrideEdits,
+  saveOverrideEdits,
+  withEdits,
+  type DescriptionOverrides,
+  type OverrideEdits,
+} from "./descriptionOverrides";
+import DataReport from "./DataReport";
+import DesignPanel from "./DesignPanel";
+import type { DataIssue } from "./dataSchema";
+import { designCoverage, designOf, groupByDesign } from "./designs";
+import { dateStamp, downloadBlob, downloadText } from "./download";
+import { buildListingSheets, sheetsToCSV, sheetsToZip } from "./exportSheets";
+import {
+  baseHasFeature,
+  contradictedFeatures,
+  DEFAULT_FEATURES,
+  featureInCategory,
+  featuresOfBase,
+  loadFeatures,
+  rankBases,
+  type FeatureCode,
+  type FeatureDef,
+} from "./features";
+import { checkDataHealth } from "./healthChecks";
+import ImageQA from "./ImageQA";
+import { reportImageFailure } from "./imageChecks";
+import { CATEGORY_LABEL } from "./labels";
 import LastUpdated from "./LastUpdated";
+import LineSheet from "./LineSheet";
+import { loadMeta, shopifyAdminUrl, type Meta } from "./meta";
 import { loadBaseProducts, type BaseProduct } from "./loadBaseProducts";
+import { loadDescriptions, type Descriptions } from "./loadDescriptions";
 import { loadProducts, type Product } from "./loadProducts";
+import { EMPTY_PRICING, formatMargin, loadPricing, quoteBase, type Pricing } from "./pricing";
+import PricingPanel from "./PricingPanel";
+import {
+  acknowledgeSnapshot,
+  changeCount,
+  diffSnapshots,
+  recordSnapshot,
+  takeSnapshot,
+  type SnapshotPair,
+} from "./snapshotDiff";
+import { isTypingTarget, stepThrough } from "./shortcuts";
+import { primaryBtn, secondaryBtn } from "./styles";
+import { loadSweepReport, type SweepReport } from "./sweepReport";
+import SweepReportView from "./SweepReportView";
+import { DEFAULT_TEMPLATES, loadTemplates, type Templates } from "./templates";
+import Toast, { type ToastMessage } from "./Toast";
+import { auditCatalog, loadStandards, type Standards } from "./uniformity";
+import UniformityAudit from "./UniformityAudit";
+import { readUrlState, resolveSelection, writeUrlState, type UrlState } from "./urlState";
+import VariantMatrix from "./VariantMatrix";
+import WhatsNew from "./WhatsNew";
 
-/* ---------- labels ---------- */
-
-// Human labels for the category codes in your CSV
-const CATEGORY_LABEL: Record<string, string> = {
-  short_tee: "Short Sleeve",
-  long_tee: "Long Sleeve",
-  hoodie: "Unisex Hoodie",
-  crew: "Sweatshirt",
-  tank: "Tank",
-  crop: "Crop Tee",
-};
-
-// Human labels for tiers shown in the copy block
-const TIER_LABEL: Record<string, string> = {
-  std: "Std",
-  mid: "Mid",
-  premium_non_org: "Premium",
-  premium_org: "Premium +",
-  heavy_top: "Mid",        // pick what you prefer for this
-  alt_mid_triblend: "Mid", // fallback
+const VIEWS = ["catalog", "search", "compare", "pricing", "editor", "descriptions", "whats_new", "sweep", "uniformity", "images", "linesheet", "health"] as const;
+type View = (typeof VIEWS)[number];
+const VIEW_LABEL: Record<View, string> = {
+  catalog: "Catalog",
+  search: "Search",
+  compare: "Compare",
+  pricing: "Pricing",
+  editor: "Editor",
+  descriptions: "Descriptions",
+  whats_new: "What's new",
+  sweep: "Sweep report",
+  uniformity: "Uniformity",
+  images: "Image QA",
+  linesheet: "Line sheet",
+  health: "Data health",
 };
 
-type FeatureCode = "organic" | "usa_made" | "triblend";
-
-/* ---------- helpers (formatting, clipboard) ---------- */
-
-// Normalizes Shopify/HTML-ish descriptions into tidy paragraphs
-function normalizeDescription(raw?: string): string {
-  if (!raw) return "";
-  let s = raw
-    .replace(/\r\n/g, "\n")
-    .replace(/<br\s*\/?>/gi, "\n")
-    .replace(/<\/p>\s*<p>/gi, "\n\n")
-    .replace(/<\/?[^>]+>/g, "");
-  s = s.replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
-  return s;
-}
-
-function copyToClipboard(text: string) {
-  if (!text) return;
-  if (navigator.clipboard?.writeText) {
-    navigator.clipboard.writeText(text).catch(() => legacyCopy(text));
-  } else {
-    legacyCopy(text);
-  }
-}
-function legacyCopy(text: string) {
-  const ta = document.createElement("textarea");
-  ta.value = text;
-  document.body.appendChild(ta);
-  ta.select();
-  document.execCommand("copy");
-  document.body.removeChild(ta);
-}
+// grid shows stock in amber at or below this
+const LOW_STOCK = 3;
 
 /* ---------- app ---------- */
 
 export default function App() {
+  const [allBases, setAllBases] = useState<BaseProduct[]>([]);
   const [bases, setBases] = useState<BaseProduct[]>([]);
+  const [allProducts, setAllProducts] = useState<Product[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
-  const [descriptions, setDescriptions] = useState<Record<string, string>>({});
+  const [descriptions, setDescriptions] = useState<Descriptions>({});
+  const [tierMaps, setTierMaps] = useState({
+    tierMap: new Map<string, string>(),
+    brandTierMap: new Map<string, string>(),
+  });
+  const [templates, setTemplates] = useState<Templates>(DEFAULT_TEMPLATES);
+  const [channel, setChannel] = useState(DEFAULT_TEMPLATES.default_channel);
+  const [format, setFormat] = useState<CopyFormat>("text");
+  const [featureDefs, setFeatureDefs] = useState<FeatureDef[]>(DEFAULT_FEATURES);
+  const [pricing, setPricing] = useState<Pricing>(EMPTY_PRICING);
+  const [useSuggested, setUseSuggested] = useState(false);
+  const [issues, setIssues] = useState<DataIssue[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -71,33 +114,71 @@ export default function App() {
   const [selectedBase, setSelectedBase] = useState<string | null>(null);
   const [features, setFeatures] = useState<Set<FeatureCode>>(new Set());
   const [filterText, setFilterText] = useState("");
+  const [onlyMatching, setOnlyMatching] = useState(true);
+  const [design, setDesign] = useState<string | null>(null);
+  const [view, setView] = useState<View>("catalog");
+  const [selectMode, setSelectMode] = useState(false);
+  const [selection, setSelection] = useState<Set<string>>(new Set());
+  const [inventoryView, setInventoryView] = useState<"grid" | "matrix">("grid");
+  const [compareCodes, setCompareCodes] = useState<string[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [toast, setToast] = useState<ToastMessage | null>(null);
+  const toastTimer = useRef<number | undefined>(undefined);
+  const [snapshots, setSnapshots] = useState<SnapshotPair | null>(null);
+  const [sweepReport, setSweepReport] = useState<SweepReport | null>(null);
+  const [meta, setMeta] = useState<Meta>({});
+  const [standards, setStandards] = useState<Standards>({});
+  const [overrideFile, setOverrideFile] = useState<DescriptionOverrides>({});
+  const [overrideEdits, setOverrideEdits] = useState<OverrideEdits>(loadOverrideEdits);
 
   // load data once
   useEffect(() => {
     (async () => {
       try {
-        const [bp, pr] = await Promise.all([
+        const [bp, pr, desc, tpl, pc, feats, report, mt, std, ovr] = await Promise.all([
           loadBaseProducts(),
           loadProducts(),
+          loadDescriptions(), // non-fatal: resolves to {} on failure
+          loadTemplates(), // non-fatal: falls back to the built-in Shopify template
+          loadPricing(), // non-fatal: no suggestions without the pricing files
+          loadFeatures(), // non-fatal: falls back to Organic / Made in USA / Triblend
+          loadSweepReport(), // non-fatal: null until the sweep writes one
+          loadMeta(), // non-fatal: no timestamp / admin links without it
+          loadStandards(), // non-fatal: nothing to audit without base_standards.json
+          loadDescriptionOverrides(), // non-fatal: shop descriptions only
         ]);
-        const activeBases = bp.filter((r) => r.active);
+        const activeBases = bp.rows.filter((r) => r.active);
+        setAllBases(bp.rows);
+        setTierMaps({ tierMap: bp.tierMap, brandTierMap: bp.brandTierMap });
         setBases(activeBases);
-        setProducts(pr.filter((p) => p.enabled));
-
-        // try to fetch base descriptions (from workflow output)
-        try {
-          const res = await fetch("/data/descriptions.json", { cache: "no-store" });
-          if (res.ok) {
-            const json = (await res.json()) as Record<string, string>;
-            setDescriptions(json || {});
-          }
-        } catch {
-          // non-fatal
-        }
+        setAllProducts(pr.rows);
+        setProducts(pr.rows.filter((p) => p.enabled));
+        setIssues([...bp.issues, ...pr.issues, ...pc.issues, ...ovr.issues]);
+        setPricing(pc.pricing);
+        setFeatureDefs(feats);
+        setDescriptions(desc);
+        setTemplates(tpl);
+        setChannel(tpl.default_channel);
+        setSnapshots(recordSnapshot(takeSnapshot(pr.rows, desc)));
+        setSweepReport(report);
+        setMeta(mt);
+        setStandards(std);
+        setOverrideFile(ovr.overrides);
 
-        setCategory(activeBases[0]?.category ?? null);
-      } catch (e: any) {
-        setError(e?.message ?? String(e));
+        // restore the selection from the URL (falls back to the first category)
+        const url = readUrlState(window.location.search);
+        const sel = resolveSelection(url, activeBases);
+        setCategory(sel.category);
+        setSelectedBase(sel.base);
+        setFeatures(toFeatureSet(url, feats));
+        setFilterText(url.filter);
+        setView(toView(url.view));
+        setCompareCodes(url.compare.filter((c) => activeBases.some((b) => b.code === c)).slice(0, MAX_COMPARE));
+        setNotice(sel.notice);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
       } finally {
         setLoading(false);
       }
@@ -117,39 +198,162 @@ export default function App() {
     [bases, category]
   );
 
-  // ensure a selected base when category changes
-  useEffect(() => {
-    if (!category) return;
-    const first = bases.find((r) => r.category === category);
-    if (first) setSelectedBase(first.code);
+  // switching category picks its first base and clears features + filter
+  function chooseCategory(c: string) {
+    if (c === category) return;
+    setCategory(c);
+    setSelectedBase(bases.find((r) => r.category === c)?.code ?? null);
     setFeatures(new Set());
     setFilterText("");
-  }, [category, bases]);
+  }
+
+  // ---- URL sync: push on selection changes, replace while typing a filter ----
+  const lastUrl = useRef<UrlState | null>(null);
+  useEffect(() => {
+    if (loading || !category) return;
+    const state: UrlState = {
+      view,
+      category,
+      base: selectedBase,
+      features: Array.from(features),
+      filter: filterText,
+      compare: view === "compare" ? compareCodes : [],
+    };
+    const qs = writeUrlState(state);
+    if (qs === window.location.search) {
+      lastUrl.current = state;
+      return;
+    }
+    const prev = lastUrl.current;
+    const onlyFilter =
+      prev !== null &&
+      writeUrlState({ ...prev, filter: "" }) === writeUrlState({ ...state, filter: "" });
+    const href = `${window.location.pathname}${qs}${window.location.hash}`;
+    if (onlyFilter || prev === null) window.history.replaceState(null, "", href);
+    else window.history.pushState(null, "", href);
+    lastUrl.current = state;
+  }, [loading, view, category, selectedBase, features, filterText, compareCodes]);
+
+  // back/forward
+  useEffect(() => {
+    function onPop() {
+      const url = readUrlState(window.location.search);
+      const sel = resolveSelection(url, bases);
+      lastUrl.current = null;
+      setCategory(sel.category);
+      setSelectedBase(sel.base);
+      setFeatures(toFeatureSet(url, featureDefs));
+      setFilterText(url.filter);
+      setView(toView(url.view));
+      setCompareCodes(url.compare.filter((c) => bases.some((b) => b.code === c)).slice(0, MAX_COMPARE));
+      setNotice(sel.notice);
+    }
+    window.addEventListener("popstate", onPop);
+    return () => window.removeEventListener("popstate", onPop);
+  }, [bases, featureDefs]);
+
+  function copyLink() {
+    copyToClipboard(window.location.href).then(
+      () => {
+        setLinkCopied(true);
+        setTimeout(() => setLinkCopied(false), 1500);
+      },
+      (e) => showToast(`Couldn't copy the link: ${e instanceof Error ? e.message : e}`, "error")
+    );
+  }
+
+  function showToast(text: string, kind: ToastMessage["kind"] = "ok") {
+    window.clearTimeout(toastTimer.current);
+    setToast({ id: Date.now(), text, kind });
+    toastTimer.current = window.setTimeout(() => setToast(null), 2500);
+  }
+
+  // clipboard write with an on-screen confirmation (or the reason it failed)
+  function copyWithToast(what: string, text: string, html?: string) {
+    if (!text) {
+      showToast("Nothing to copy", "error");
+      return;
+    }
+    copyToClipboard(text, html).then(
+      () => showToast(`Copied ${what}`),
+      (e) => showToast(`Couldn't copy ${what}: ${e instanceof Error ? e.message : e}`, "error")
+    );
+  }
+
+  // cross-file drift report for the "Data health" view
+  const healthFindings = useMemo(
+    () =>
+      checkDataHealth({
+        bases: allBases,
+        products: allProducts,
+        tierMap: tierMaps.tierMap,
+        brandTierMap: tierMaps.brandTierMap,
+        descriptions,
+      }),
+    [allBases, allProducts, tierMaps, descriptions]
+  );
+  const activeCodes = useMemo(() => new Set(bases.map((b) => b.code)), [bases]);
+
+  // changes since the previous snapshot, for "What's new" and the base list badges
+  const snapshotChanges = useMemo(
+    () => (snapshots?.previous ? diffSnapshots(snapshots.previous, snapshots.current) : []),
+    [snapshots]
+  );
+  // designs off their base's standard offering, for the "Uniformity" view
+  const uniformityFindings = useMemo(() => auditCatalog(standards, products), [standards, products]);
+  const changesByBase = useMemo(() => new Map(snapshotChanges.map((c) => [c.code, c])), [snapshotChanges]);
+
+  function goToBase(code: string) {
+    const target = bases.find((b) => b.code === code);
+    if (!target) return;
+    if (target.category !== category) {
+      setFeatures(new Set());
+      setFilterText("");
+    }
+    setCategory(target.category);
+    setSelectedBase(target.code);
+    setView("catalog");
+  }
 
   const base = useMemo(
     () => bases.find((r) => r.code === selectedBase) || null,
     [bases, selectedBase]
   );
 
-  // feature availability (enables/disables chips)
-  const canOrganic = basesForCategory.some((b) => b.organic);
-  const canUSAMade = basesForCategory.some((b) => b.usa_made);
-  const canTriblend =
-    (category === "short_tee" || category === "tank") &&
-    basesForCategory.some(
-      (b) =>
-        /triblend/i.test(b.label) ||
-        /tri[- ]?blend/i.test(b.fit_notes ?? "") ||
-        b.tier === ("alt_mid_triblend" as any)
-    );
+  // toggled chips the selected base doesn't have: their tags would be false claims
+  const contradicted = useMemo(
+    () => (base ? contradictedFeatures(base, features, featureDefs) : []),
+    [base, features, featureDefs]
+  );
+
+  // feature chips for this category; a chip is enabled when some base here has the feature
+  const categoryFeatures = useMemo(
+    () =>
+      featureDefs
+        .filter((f) => featureInCategory(f, category))
+        .map((f) => ({ def: f, available: basesForCategory.some((b) => baseHasFeature(b, f)) })),
+    [featureDefs, category, basesForCategory]
+  );
 
+  // bases ranked by how many toggled features they have; with "only matching"
+  // on, bases missing any toggled feature are hidden
+  const rankedBases = useMemo(
+    () => rankBases(basesForCategory, features, featureDefs),
+    [basesForCategory, features, featureDefs]
+  );
+  const shownBases = onlyMatching ? rankedBases.filter((r) => r.full) : rankedBases;
+  const hiddenBases = rankedBases.length - shownBases.length;
+
+  // toggling a chip moves the selection to the best match if the current base lacks a toggled feature
   function toggleFeature(code: FeatureCode, enabled: boolean) {
-    setFeatures((prev) => {
-      const next = new Set(prev);
-      if (enabled) next.add(code);
-      else next.delete(code);
-      return next;
-    });
+    const next = new Set(features);
+    if (enabled) next.add(code);
+    else next.delete(code);
+    setFeatures(next);
+
+    const ranked = rankBases(basesForCategory, next, featureDefs);
+    const current = ranked.find((r) => r.base.code === selectedBase);
+    if (ranked.length && (!current || !current.full)) setSelectedBase(ranked[0].base.code);
   }
 
   // products for the selected base
@@ -158,20 +362,205 @@ export default function App() {
     [products, selectedBase]
   );
 
-  // filter grid products
-  const visibleProducts = useMemo(() => {
-    const q = filterText.trim().toLowerCase();
-    if (!q) return productsForBase;
-    return productsForBase.filter((p) =>
-      [p.sku, p.title, p.color, p.size]
-        .filter(Boolean)
-        .some((v) => String(v).toLowerCase().includes(q))
+  // price quote for the selected base; with "use suggested" on, copy/export use its suggestion.
+  // Size upcharges apply to whichever base price is used.
+  const quote = useMemo(() => (base ? quoteBase(base, pricing) : null), [base, pricing]);
+  const withPricing = useCallback(
+    (b: BaseProduct): Pick<CopyInput, "base" | "pricing"> => {
+      const suggested = useSuggested ? quoteBase(b, pricing).suggested : null;
+      return { base: suggested === null ? b : { ...b, retail_price: suggested }, pricing };
+    },
+    [useSuggested, pricing]
+  );
+
+  // shop descriptions with the curated overrides applied; everything copy-related reads these
+  const overrides = useMemo(() => withEdits(overrideFile, overrideEdits), [overrideFile, overrideEdits]);
+  const copyDescriptions = useMemo(() => applyOverrides(descriptions, overrides), [descriptions, overrides]);
+
+  function changeOverrideEdits(next: OverrideEdits) {
+    // removing an override that only ever existed locally leaves nothing to record
+    const pruned = Object.fromEntries(Object.entries(next).filter(([code, o]) => o || overrideFile[code]));
+    setOverrideEdits(pruned);
+    saveOverrideEdits(pruned);
+  }
+
+  // copy block for the selected base in the chosen channel's template and output format
+  const copyInput = useMemo<CopyInput | null>(
+    () =>
+      base
+        ? {
+            ...withPricing(base),
+            features,
+            featureDefs,
+            descriptions: copyDescriptions,
+            products: productsForBase,
+            templates,
+            channel,
+          }
+        : null,
+    [base, withPricing, features, featureDefs, copyDescriptions, productsForBase, templates, channel]
+  );
+  // description checks shown beside the copy block
+  const descriptionFindings = useMemo(
+    () => (base ? lintDescription(descriptionSource(base, copyDescriptions, templates)) : []),
+    [base, copyDescriptions, templates]
+  );
+  const copyOutput = useMemo(
+    () => (copyInput ? formatCopy(format, buildCopyBlock(copyInput), copyInput) : null),
+    [copyInput, format]
+  );
+
+  function copyDescription() {
+    if (!copyInput) return;
+    // a JSON payload makes no sense for the description alone; use its body_html instead
+    const descFormat = format === "shopify_json" ? "html" : format;
+    const out = formatCopy(descFormat, buildDescription(copyInput.base, copyDescriptions, templates), copyInput);
+    copyWithToast(`the ${copyInput.base.code} description`, out.text, out.html);
+  }
+
+  function copyAll() {
+    if (copyOutput && base) copyWithToast(`the ${base.code} copy block`, copyOutput.text, copyOutput.html);
+  }
+
+  function toggleSelection(code: string) {
+    setSelection((prev) => {
+      const next = new Set(prev);
+      if (next.has(code)) next.delete(code);
+      else next.add(code);
+      return next;
+    });
+  }
+
+  // bulk export of the selected bases, generated client-side
+  function exportSelection(kind: "csv" | "zip") {
+    const sheets = buildListingSheets(
+      bases
+        .filter((b) => selection.has(b.code))
+        .map((b) => ({
+          ...withPricing(b),
+          features,
+          featureDefs,
+          descriptions: copyDescriptions,
+          products: products.filter((p) => p.base_code === b.code),
+          templates,
+          channel,
+        }))
     );
-  }, [productsForBase, filterText]);
+    const name = `listing-sheets-${dateStamp()}`;
+    if (kind === "csv") downloadText(sheetsToCSV(sheets), `${name}.csv`, "text/csv");
+    else downloadBlob(sheetsToZip(sheets), `${name}.zip`);
+  }
+
+  // filter grid products
+  // designs on the selected base; a picked design that isn't on this base is ignored
+  const designGroups = useMemo(() => designCoverage(groupByDesign(productsForBase)), [productsForBase]);
+  const activeDesign = designGroups.some((g) => g.key === design) ? design : null;
+  const categoryCodes = useMemo(() => basesForCategory.map((b) => b.code), [basesForCategory]);
+  const allCodes = useMemo(() => bases.map((b) => b.code), [bases]);
+  const inDesign = useCallback(
+    (list: Product[]) => (activeDesign ? list.filter((p) => designOf(p.title).key === activeDesign) : list),
+    [activeDesign]
+  );
+
+  const visibleProducts = useMemo(
+    () => filterProducts(inDesign(productsForBase), filterText),
+    [inDesign, productsForBase, filterText]
+  );
+
+  // the matrix also shows disabled variants, so it filters the unfiltered list
+  const matrixProducts = useMemo(
+    () => filterProducts(inDesign(allProducts.filter((p) => p.base_code === selectedBase)), filterText),
+    [inDesign, allProducts, selectedBase, filterText]
+  );
+
+  // ---- keyboard: Ctrl/⌘+K anywhere; arrows, 1–9, D and C in the catalog view ----
+  // bound once; the ref always holds this render's handler, so it sees the current selection
+  const keyHandler = useRef<(e: KeyboardEvent) => void>(() => {});
+  useEffect(() => {
+    keyHandler.current = (e) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setPaletteOpen((open) => !open);
+        return;
+      }
+      if (paletteOpen || view !== "catalog" || e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return;
+
+      if (e.key === "ArrowLeft" || e.key === "ArrowRight") {
+        const next = stepThrough(categories, category, e.key === "ArrowRight" ? 1 : -1);
+        if (next) chooseCategory(next);
+      } else if (e.key === "ArrowUp" || e.key === "ArrowDown") {
+        const codes = shownBases.map((r) => r.base.code);
+        const next = stepThrough(codes, selectedBase, e.key === "ArrowDown" ? 1 : -1);
+        if (!next) return;
+        setSelectedBase(next);
+        document.querySelector(`[data-base="${next}"]`)?.scrollIntoView({ block: "nearest" });
+      } else if (/^[1-9]$/.test(e.key)) {
+        const chip = categoryFeatures[Number(e.key) - 1];
+        if (!chip?.available) return;
+        toggleFeature(chip.def.code, !features.has(chip.def.code));
+      } else if (e.key === "d" || e.key === "D") {
+        copyDescription();
+      } else if (e.key === "c" || e.key === "C") {
+        copyAll();
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+  });
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => keyHandler.current(e);
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
+  // palette entries: actions, every base (active or not) and every variant
+  function paletteItems(): PaletteItem[] {
+    const inactive = (code: string) => () =>
+      showToast(`${code} is inactive — turn it on in the Editor to list it`, "error");
+    const actions: PaletteItem[] = [
+      ...(base
+        ? [
+            { id: "copy-desc", label: "Copy description", detail: base.code, run: copyDescription },
+            { id: "copy-all", label: "Copy all", detail: base.code, run: copyAll },
+          ]
+        : []),
+      { id: "copy-link", label: "Copy link", run: copyLink },
+      ...VIEWS.map((v) => ({ id: `view-${v}`, label: `Go to ${VIEW_LABEL[v]}`, run: () => setView(v) })),
+    ].map((a) => ({ ...a, group: "Action" as const, search: a.label }));
+    const baseItems = allBases.map<PaletteItem>((b) => ({
+      id: `base-${b.code}`,
+      group: "Base",
+      label: b.code,
+      detail: `${b.label}${b.active ? "" : " (inactive)"}`,
+      search: `${b.code} ${b.label} ${b.brand} ${b.model_name}`,
+      run: activeCodes.has(b.code) ? () => goToBase(b.code) : inactive(b.code),
+    }));
+    const variantItems = allProducts.map<PaletteItem>((p) => ({
+      id: `sku-${p.sku}`,
+      group: "Variant",
+      label: p.sku,
+      detail: `${p.title} · ${p.base_code}`,
+      search: `${p.sku} ${p.title} ${p.base_code}`,
+      run: activeCodes.has(p.base_code)
+        ? () => {
+            goToBase(p.base_code);
+            setFilterText(p.sku);
+          }
+        : inactive(p.base_code),
+    }));
+    return [...actions, ...baseItems, ...variantItems];
+  }
 
   if (loading) return <p style={{ padding: 16 }}>Loading…</p>;
   if (error) return <p style={{ padding: 16, color: "#b00" }}>Error: {error}</p>;
-  if (!category) return <p style={{ padding: 16 }}>No active base products found.</p>;
+  if (!category)
+    return (
+      <div style={{ padding: 16 }}>
+        <p>No active base products found.</p>
+        <DataReport issues={issues} />
+      </div>
+    );
 
   return (
     <div
@@ -182,210 +571,621 @@ export default function App() {
         margin: "0 auto",
       }}
     >
-      <h1 style={{ margin: 0, fontSize: 28 }}>ArtsyFartsy — Product Uniformity</h1>
-      <p style={{ marginTop: 8, color: "#555" }}>
-        Pick a garment type, choose a base, toggle special features, then copy.
+      <h1 className="no-print" style={{ margin: 0, fontSize: 28 }}>ArtsyFartsy — Product Uniformity</h1>
+      <p className="no-print" style={{ marginTop: 8, color: "#555" }}>
+        Pick a garment type, choose a base, toggle special features, then copy. <kbd>Ctrl</kbd>+<kbd>K</kbd> jumps to any
+        base or SKU.
       </p>
 
-      <LastUpdated />
-
-      {/* Type of garment chips */}
-      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 12 }}>
-        {categories.map((c) => {
-          const active = c === category;
-          const label = CATEGORY_LABEL[c] ?? c;
-          return (
-            <button
-              key={c}
-              onClick={() => setCategory(c)}
-              style={{
-                padding: "8px 12px",
-                borderRadius: 999,
-                border: active ? "1px solid #111" : "1px solid #ddd",
-                background: active ? "#111" : "#fff",
-                color: active ? "#fff" : "#111",
-                cursor: "pointer",
-              }}
-            >
-              {label}
-            </button>
-          );
-        })}
-      </div>
+      <LastUpdated meta={meta} />
+      <DataReport issues={issues} />
+      {notice && (
+        <div
+          className="no-print"
+          style={{
+            marginTop: 12,
+            padding: "8px 12px",
+            borderRadius: 12,
+            border: "1px solid #f0dca0",
+            background: "#fffbeb",
+            fontSize: 13,
+            display: "flex",
+            justifyContent: "space-between",
+            gap: 8,
+          }}
+        >
+          <span>{notice}</span>
+          <button
+            onClick={() => setNotice(null)}
+            style={{ border: "none", background: "none", cursor: "pointer", color: "#7a5b00" }}
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
 
-      {/* Special feature chips */}
-      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 12 }}>
-        <Chip
-          label="Organic"
-          active={features.has("organic")}
-          disabled={!canOrganic}
-          onClick={() => canOrganic && toggleFeature("organic", !features.has("organic"))}
+      {/* View tabs */}
+      <div className="no-print" style={{ display: "flex", gap: 4, marginTop: 16, borderBottom: "1px solid #e5e5e5" }}>
+        <Tab label={VIEW_LABEL.catalog} active={view === "catalog"} onClick={() => setView("catalog")} />
+        <Tab label={VIEW_LABEL.search} active={view === "search"} onClick={() => setView("search")} />
+        <Tab label={VIEW_LABEL.compare} active={view === "compare"} onClick={() => setView("compare")} />
+        <Tab label={VIEW_LABEL.pricing} active={view === "pricing"} onClick={() => setView("pricing")} />
+        <Tab label={VIEW_LABEL.editor} active={view === "editor"} onClick={() => setView("editor")} />
+        <Tab
+          label={VIEW_LABEL.descriptions}
+          count={Object.keys(overrides).length}
+          active={view === "descriptions"}
+          onClick={() => setView("descriptions")}
+        />
+        <Tab
+          label={VIEW_LABEL.whats_new}
+          count={snapshotChanges.length}
+          active={view === "whats_new"}
+          onClick={() => setView("whats_new")}
+        />
+        <Tab
+          label={VIEW_LABEL.sweep}
+          count={sweepReport ? sweepReport.skipped.length + sweepReport.ambiguous.length + sweepReport.alias_collisions.length : 0}
+          active={view === "sweep"}
+          onClick={() => setView("sweep")}
         />
-        <Chip
-          label="Made in USA"
-          active={features.has("usa_made")}
-          disabled={!canUSAMade}
-          onClick={() => canUSAMade && toggleFeature("usa_made", !features.has("usa_made"))}
+        <Tab
+          label={VIEW_LABEL.uniformity}
+          count={uniformityFindings.length}
+          active={view === "uniformity"}
+          onClick={() => setView("uniformity")}
         />
-        <Chip
-          label="Triblend"
-          active={features.has("triblend")}
-          disabled={!canTriblend}
-          onClick={() => canTriblend && toggleFeature("triblend", !features.has("triblend"))}
+        <Tab label={VIEW_LABEL.images} active={view === "images"} onClick={() => setView("images")} />
+        <Tab label={VIEW_LABEL.linesheet} active={view === "linesheet"} onClick={() => setView("linesheet")} />
+        <Tab
+          label={VIEW_LABEL.health}
+          count={healthFindings.length}
+          active={view === "health"}
+          onClick={() => setView("health")}
         />
+        <button
+          onClick={copyLink}
+          title="Copy a link to the current selection"
+          style={{ ...secondaryBtn, marginLeft: "auto", marginBottom: 4, padding: "4px 10px", fontSize: 13 }}
+        >
+          {linkCopied ? "Link copied" : "Copy link"}
+        </button>
       </div>
-      {!canUSAMade && (
-        <p style={{ marginTop: 4, color: "#888", fontSize: 12 }}>
-          “Made in USA” will auto-enable when a USA base exists for this type.
-        </p>
-      )}
 
-      {/* Base options for selected type */}
-      <div style={{ marginTop: 20 }}>
-        <h2 style={{ marginBottom: 8 }}>
-          Base options for <em>{CATEGORY_LABEL[category] ?? category}</em>
-        </h2>
-        <div style={{ display: "grid", gap: 8 }}>
-          {basesForCategory.map((b) => {
-            const active = b.code === selectedBase;
-            return (
+      {view === "health" ? (
+        <DataHealth findings={healthFindings} activeCodes={activeCodes} onSelectBase={goToBase} />
+      ) : view === "sweep" ? (
+        <SweepReportView report={sweepReport} activeCodes={activeCodes} onSelectBase={goToBase} />
+      ) : view === "linesheet" ? (
+        <LineSheet bases={bases} products={products} descriptions={copyDescriptions} />
+      ) : view === "images" ? (
+        <ImageQA products={products} activeCodes={activeCodes} onSelectBase={goToBase} />
+      ) : view === "uniformity" ? (
+        <UniformityAudit
+          standards={standards}
+          findings={uniformityFindings}
+          activeCodes={activeCodes}
+          onSelectBase={goToBase}
+        />
+      ) : view === "whats_new" ? (
+        <WhatsNew
+          pair={snapshots}
+          changes={snapshotChanges}
+          activeCodes={activeCodes}
+          onSelectBase={goToBase}
+          onAcknowledge={() => snapshots && setSnapshots(acknowledgeSnapshot(snapshots))}
+        />
+      ) : view === "editor" ? (
+        <CatalogEditor />
+      ) : view === "descriptions" ? (
+        <DescriptionEditor
+          bases={bases}
+          shop={descriptions}
+          overrides={overrides}
+          edits={overrideEdits}
+          onChangeEdits={changeOverrideEdits}
+          onDiscardEdits={() => {
+            clearOverrideEdits();
+            setOverrideEdits({});
+          }}
+          initialCode={selectedBase}
+        />
+      ) : view === "search" ? (
+        <CatalogSearch bases={bases} products={products} featureDefs={featureDefs} onSelectBase={goToBase} />
+      ) : view === "pricing" ? (
+        <PricingPanel
+          bases={bases}
+          products={products}
+          pricing={pricing}
+          useSuggested={useSuggested}
+          onUseSuggested={setUseSuggested}
+          onSelectBase={goToBase}
+        />
+      ) : view === "compare" ? (
+        <CompareView
+          bases={bases}
+          products={products}
+          descriptions={copyDescriptions}
+          templates={templates}
+          codes={compareCodes}
+          onChange={setCompareCodes}
+          onSelectBase={goToBase}
+        />
+      ) : (
+        <>
+          {/* Type of garment chips */}
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 12 }}>
+            {categories.map((c) => {
+              const active = c === category;
+              const label = CATEGORY_LABEL[c] ?? c;
+              return (
+                <button
+                  key={c}
+                  onClick={() => chooseCategory(c)}
+                  style={{
+                    padding: "8px 12px",
+                    borderRadius: 999,
+                    border: active ? "1px solid #111" : "1px solid #ddd",
+                    background: active ? "#111" : "#fff",
+                    color: active ? "#fff" : "#111",
+                    cursor: "pointer",
+                  }}
+                >
+                  {label}
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Special feature chips */}
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 12 }}>
+            {categoryFeatures.map(({ def: f, available }, n) => (
+              <Chip
+                key={f.code}
+                label={f.label}
+                hint={n < 9 ? String(n + 1) : undefined}
+                active={features.has(f.code)}
+                disabled={!available}
+                onClick={() => available && toggleFeature(f.code, !features.has(f.code))}
+              />
+            ))}
+          </div>
+          {categoryFeatures
+            .filter(({ def: f, available }) => !available && f.unavailable_hint)
+            .map(({ def: f }) => (
+              <p key={f.code} style={{ marginTop: 4, color: "#888", fontSize: 12 }}>
+                {f.unavailable_hint}
+              </p>
+            ))}
+
+          {/* Base options for selected type */}
+          <div style={{ marginTop: 20 }}>
+            <div style={{ display: "flex", alignItems: "baseline", gap: 12, flexWrap: "wrap" }}>
+              <h2 style={{ marginBottom: 8 }}>
+                Base options for <em>{CATEGORY_LABEL[category] ?? category}</em>
+              </h2>
               <button
-                key={b.code}
-                onClick={() => setSelectedBase(b.code)}
+                onClick={() => setSelectMode((on) => !on)}
+                style={{ ...secondaryBtn, padding: "4px 10px", fontSize: 13 }}
+              >
+                {selectMode ? "Done selecting" : "Select multiple"}
+              </button>
+            </div>
+            {selectMode && (
+              <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginBottom: 8 }}>
+                <button
+                  onClick={() => setSelection((prev) => new Set([...prev, ...basesForCategory.map((b) => b.code)]))}
+                  style={{ ...secondaryBtn, padding: "6px 10px" }}
+                >
+                  Select all in category
+                </button>
+                <button onClick={() => setSelection(new Set())} style={{ ...secondaryBtn, padding: "6px 10px" }}>
+                  Clear
+                </button>
+                <span style={{ color: "#666", fontSize: 12 }}>
+                  {selection.size} base{selection.size === 1 ? "" : "s"} selected
+                </span>
+                <button
+                  onClick={() => exportSelection("csv")}
+                  disabled={selection.size === 0}
+                  style={{ ...primaryBtn, padding: "6px 10px" }}
+                >
+                  Export CSV
+                </button>
+                <button
+                  onClick={() => exportSelection("zip")}
+                  disabled={selection.size === 0}
+                  style={{ ...primaryBtn, padding: "6px 10px" }}
+                >
+                  Export ZIP
+                </button>
+                <button
+                  onClick={() => {
+                    setCompareCodes(bases.filter((b) => selection.has(b.code)).map((b) => b.code));
+                    setView("compare");
+                  }}
+                  disabled={selection.size < 2 || selection.size > MAX_COMPARE}
+                  title={`Compare 2–${MAX_COMPARE} selected bases`}
+                  style={{ ...secondaryBtn, padding: "6px 10px" }}
+                >
+                  Compare
+                </button>
+              </div>
+            )}
+            {features.size > 0 && (
+              <p style={{ margin: "0 0 8px", fontSize: 12, color: "#666" }}>
+                {shownBases.length === 0
+                  ? "No base here has every toggled feature."
+                  : "Ranked by toggled features."}{" "}
+                {(hiddenBases > 0 || !onlyMatching) && (
+                  <label>
+                    <input type="checkbox" checked={onlyMatching} onChange={(e) => setOnlyMatching(e.target.checked)} />{" "}
+                    only full matches{hiddenBases > 0 && ` (${hiddenBases} hidden)`}
+                  </label>
+                )}
+              </p>
+            )}
+            <div style={{ display: "grid", gap: 8 }}>
+              {shownBases.map(({ base: b, full }) => {
+                const active = selectMode ? selection.has(b.code) : b.code === selectedBase;
+                return (
+                  <button
+                    key={b.code}
+                    data-base={b.code}
+                    onClick={() => (selectMode ? toggleSelection(b.code) : setSelectedBase(b.code))}
+                    style={{
+                      textAlign: "left",
+                      padding: "10px 12px",
+                      borderRadius: 12,
+                      border: active ? "1.5px solid #111" : "1px solid #ddd",
+                      background: active ? "#f5f5f5" : "#fff",
+                      cursor: "pointer",
+                      opacity: full ? 1 : 0.6,
+                    }}
+                  >
+                    {selectMode && (
+                      <input type="checkbox" readOnly checked={selection.has(b.code)} style={{ marginRight: 8 }} />
+                    )}
+                    {b.label} {` — $${b.retail_price.toFixed(2)}`}
+                    {changesByBase.has(b.code) && (
+                      <span
+                        title="Changed since the previous snapshot — see What's new"
+                        style={{
+                          marginLeft: 6,
+                          padding: "1px 6px",
+                          borderRadius: 999,
+                          fontSize: 11,
+                          background: "#fff4d6",
+                          color: "#8a6d00",
+                        }}
+                      >
+                        {changeCount(changesByBase.get(b.code)!)} new
+                      </span>
+                    )}
+                    {featuresOfBase(b, featureDefs).map((f) => (
+                      <span
+                        key={f.code}
+                        style={{
+                          marginLeft: 6,
+                          padding: "1px 6px",
+                          borderRadius: 999,
+                          fontSize: 11,
+                          border: "1px solid #ccc",
+                          background: features.has(f.code) ? "#111" : "#fff",
+                          color: features.has(f.code) ? "#fff" : "#555",
+                        }}
+                      >
+                        {f.label}
+                      </span>
+                    ))}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Copy block */}
+          <div style={{ marginTop: 24 }}>
+            <h2 style={{ marginBottom: 8 }}>Copy block (read-only)</h2>
+            {base && contradicted.length > 0 && (
+              <p
                 style={{
-                  textAlign: "left",
-                  padding: "10px 12px",
-                  borderRadius: 12,
-                  border: active ? "1.5px solid #111" : "1px solid #ddd",
-                  background: active ? "#f5f5f5" : "#fff",
-                  cursor: "pointer",
+                  margin: "0 0 8px",
+                  padding: "6px 10px",
+                  borderRadius: 10,
+                  fontSize: 13,
+                  background: "#fff4f4",
+                  border: "1px solid #f3c2c2",
+                  color: "#900",
                 }}
               >
-                {b.label} {` — $${b.retail_price.toFixed(2)}`}
+                {base.code} is not {contradicted.map((f) => f.label).join(" / ")}, but the copy block tags it{" "}
+                {contradicted.map((f) => `"${f.code}"`).join(", ")}. Turn the chip off or pick a matching base.
+              </p>
+            )}
+            {quote && quote.suggested !== null && (
+              <p style={{ margin: "0 0 8px", fontSize: 12, color: "#666" }}>
+                Suggested retail ${quote.suggested.toFixed(2)} (current ${quote.current.toFixed(2)}, margin{" "}
+                {formatMargin(quote.currentMargin)}){quote.band && ` — current price is ${quote.band} the tier band`}.{" "}
+                <label>
+                  <input type="checkbox" checked={useSuggested} onChange={(e) => setUseSuggested(e.target.checked)} /> use
+                  suggested
+                </label>
+              </p>
+            )}
+            <div
+              style={{
+                whiteSpace: "pre-wrap",
+                padding: 12,
+                borderRadius: 12,
+                border: "1px solid #e5e5e5",
+                background: "#fafafa",
+                fontSize: 14,
+                lineHeight: 1.4,
+              }}
+            >
+              {copyOutput?.text || "Select a base above to preview."}
+            </div>
+            {base && descriptionFindings.length > 0 && (
+              <ul style={{ margin: "8px 0 0", paddingLeft: 18, fontSize: 12, color: "#555" }}>
+                {descriptionFindings.map((f) => (
+                  <li key={f.kind} style={{ color: f.severity === "error" ? "#b00" : "#8a5a00" }}>
+                    <strong>{LINT_KIND_LABEL[f.kind]}:</strong> {f.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+              <button
+                onClick={copyDescription}
+                style={primaryBtn}
+                disabled={!base}
+              >
+                Copy description
               </button>
-            );
-          })}
-        </div>
-      </div>
-
-      {/* Copy block */}
-      <div style={{ marginTop: 24 }}>
-        <h2 style={{ marginBottom: 8 }}>Copy block (read-only)</h2>
-        <div
-          style={{
-            whiteSpace: "pre-wrap",
-            padding: 12,
-            borderRadius: 12,
-            border: "1px solid #e5e5e5",
-            background: "#fafafa",
-            fontSize: 14,
-            lineHeight: 1.4,
-          }}
-        >
-          {base ? buildCopyBlock(base, features, descriptions) : "Select a base above to preview."}
-        </div>
-        <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
-          <button
-            onClick={() => base && copyToClipboard(buildDescription(base, descriptions))}
-            style={primaryBtn}
-            disabled={!base}
-          >
-            Copy description
-          </button>
-          <button
-            onClick={() => base && copyToClipboard(buildCopyBlock(base, features, descriptions))}
-            style={secondaryBtn}
-            disabled={!base}
-          >
-            Copy all
-          </button>
-        </div>
-      </div>
+              <button
+                onClick={copyAll}
+                style={secondaryBtn}
+                disabled={!base}
+              >
+                Copy all
+              </button>
+              <select
+                value={channel}
+                onChange={(e) => setChannel(e.target.value)}
+                title="Channel template used by the copy block"
+                style={{ padding: "6px 8px", borderRadius: 10, border: "1px solid #ddd" }}
+              >
+                {Object.entries(templates.channels).map(([code, t]) => (
+                  <option key={code} value={code}>
+                    {t.label}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={format}
+                onChange={(e) => setFormat(e.target.value as CopyFormat)}
+                title="Output format for the copy buttons"
+                style={{ padding: "6px 8px", borderRadius: 10, border: "1px solid #ddd" }}
+              >
+                {(Object.keys(COPY_FORMAT_LABEL) as CopyFormat[]).map((f) => (
+                  <option key={f} value={f}>
+                    {COPY_FORMAT_LABEL[f]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
 
-      {/* Image grid controls */}
-      <div style={{ marginTop: 24 }}>
-        <h2 style={{ marginBottom: 8 }}>Current inventory (selected base)</h2>
-
-        <div style={{ display: "flex", gap: 8, alignItems: "center", marginBottom: 8 }}>
-          <input
-            value={filterText}
-            onChange={(e) => setFilterText(e.target.value)}
-            placeholder="Filter by color, size, or SKU…"
-            style={{
-              padding: "8px 10px",
-              borderRadius: 10,
-              border: "1px solid #ddd",
-              width: 320,
-            }}
-          />
-          {filterText && (
-            <button onClick={() => setFilterText("")} style={{ ...secondaryBtn, padding: "6px 10px" }}>
-              Clear
-            </button>
+          {base && productsForBase.length > 0 && (
+            <DesignPanel
+              baseCode={base.code}
+              groups={designGroups}
+              design={activeDesign}
+              onSelectDesign={setDesign}
+              categoryCodes={categoryCodes}
+              allCodes={allCodes}
+              products={products}
+              onSelectBase={goToBase}
+            />
           )}
-          <span style={{ color: "#666", fontSize: 12 }}>{visibleProducts.length} matching</span>
-        </div>
 
-        {visibleProducts.length === 0 ? (
-          <p style={{ color: "#777" }}>No products match your filter.</p>
-        ) : (
-          <div
-            style={{
-              display: "grid",
-              gridTemplateColumns: "repeat(auto-fill, minmax(180px, 1fr))",
-              gap: 12,
-            }}
-          >
-            {visibleProducts.map((p) => (
-              <figure
-                key={p.sku}
+          {/* Image grid controls */}
+          <div style={{ marginTop: 24 }}>
+            <div style={{ display: "flex", alignItems: "baseline", gap: 12, flexWrap: "wrap" }}>
+              <h2 style={{ marginBottom: 8 }}>Current inventory (selected base)</h2>
+              <div style={{ display: "flex", gap: 4 }}>
+                <Chip label="Grid" active={inventoryView === "grid"} onClick={() => setInventoryView("grid")} />
+                <Chip label="Color × size" active={inventoryView === "matrix"} onClick={() => setInventoryView("matrix")} />
+              </div>
+            </div>
+
+            <div style={{ display: "flex", gap: 8, alignItems: "center", marginBottom: 8 }}>
+              <input
+                value={filterText}
+                onChange={(e) => setFilterText(e.target.value)}
+                placeholder="Filter by color, size, or SKU…"
+                style={{
+                  padding: "8px 10px",
+                  borderRadius: 10,
+                  border: "1px solid #ddd",
+                  width: 320,
+                }}
+              />
+              {filterText && (
+                <button onClick={() => setFilterText("")} style={{ ...secondaryBtn, padding: "6px 10px" }}>
+                  Clear
+                </button>
+              )}
+              <span style={{ color: "#666", fontSize: 12 }}>{visibleProducts.length} matching</span>
+            </div>
+
+            {inventoryView === "matrix" ? (
+              <VariantMatrix products={matrixProducts} />
+            ) : visibleProducts.length === 0 ? (
+              <p style={{ color: "#777" }}>No products match your filter.</p>
+            ) : (
+              <div
                 style={{
-                  margin: 0,
-                  border: "1px solid #e8e8e8",
-                  borderRadius: 12,
-                  overflow: "hidden",
-                  background: "#fff",
+                  display: "grid",
+                  gridTemplateColumns: "repeat(auto-fill, minmax(180px, 1fr))",
+                  gap: 12,
                 }}
               >
-                <img
-                  src={p.image_src}
-                  alt={p.title}
-                  loading="lazy"
-                  width={600}
-                  height={600}
-                  style={{
-                    width: "100%",
-                    height: "auto",
-                    display: "block",
-                    aspectRatio: "1 / 1",
-                    objectFit: "cover",
-                  }}
-                  onError={(e) => {
-                    (e.currentTarget as HTMLImageElement).src = "/img/fallback.svg";
-                  }}
-                />
-                <figcaption style={{ padding: 8, fontSize: 12, color: "#333" }}>
-                  <div style={{ fontWeight: 600, marginBottom: 2 }}>{p.sku}</div>
-                  <div style={{ color: "#666" }}>{p.title}</div>
-                </figcaption>
-              </figure>
-            ))}
+                {visibleProducts.map((p) => (
+                  <figure
+                    key={p.sku}
+                    style={{
+                      margin: 0,
+                      border: "1px solid #e8e8e8",
+                      borderRadius: 12,
+                      overflow: "hidden",
+                      background: "#fff",
+                    }}
+                  >
+                    <img
+                      src={p.image_src}
+                      alt={p.title}
+                      loading="lazy"
+                      width={600}
+                      height={600}
+                      style={{
+                        width: "100%",
+                        height: "auto",
+                        display: "block",
+                        aspectRatio: "1 / 1",
+                        objectFit: "cover",
+                      }}
+                      onError={(e) => {
+                        reportImageFailure(p.image_src); // listed in Image QA
+                        (e.currentTarget as HTMLImageElement).src = "/img/fallback.svg";
+                      }}
+                    />
+                    <figcaption style={{ padding: 8, fontSize: 12, color: "#333" }}>
+                      <div style={{ fontWeight: 600, marginBottom: 2 }}>{p.sku}</div>
+                      <div style={{ color: "#666" }}>{p.title}</div>
+                      <div style={{ display: "flex", gap: 6, alignItems: "center", flexWrap: "wrap", marginTop: 4 }}>
+                        {p.price !== null && (
+                          <span>
+                            ${p.price.toFixed(2)}
+                            {p.compare_at_price !== null && p.compare_at_price > p.price && (
+                              <s style={{ color: "#999", marginLeft: 4 }}>${p.compare_at_price.toFixed(2)}</s>
+                            )}
+                          </span>
+                        )}
+                        {p.inventory_quantity !== null &&
+                          (p.inventory_quantity > 0 ? (
+                            <span style={{ color: p.inventory_quantity <= LOW_STOCK ? "#8a6d00" : "#2a7a2a" }}>
+                              {p.inventory_quantity} in stock
+                            </span>
+                          ) : (
+                            <span
+                              style={{ padding: "1px 6px", borderRadius: 999, background: "#fde8e8", color: "#b00" }}
+                            >
+                              Out of stock
+                            </span>
+                          ))}
+                        {meta.shop && p.product_id && (
+                          <a
+                            href={shopifyAdminUrl(meta.shop, p.product_id, p.variant_id || undefined)}
+                            target="_blank"
+                            rel="noreferrer"
+                            style={{ marginLeft: "auto" }}
+                          >
+                            Shopify admin ↗
+                          </a>
+                        )}
+                      </div>
+                    </figcaption>
+                  </figure>
+                ))}
+              </div>
+            )}
           </div>
-        )}
-      </div>
+        </>
+      )}
+      <Toast toast={toast} />
+      {paletteOpen && <CommandPalette items={paletteItems()} onClose={() => setPaletteOpen(false)} />}
     </div>
   );
 }
 
+/* ---------- helpers ---------- */
+
+function toView(v: string): View {
+  return (VIEWS as readonly string[]).includes(v) ? (v as View) : "catalog";
+}
+
+function toFeatureSet(url: UrlState, defs: FeatureDef[]): Set<FeatureCode> {
+  return new Set(defs.map((f) => f.code).filter((code) => url.features.includes(code)));
+}
+
+// case-insensitive substring match over the grid's visible fields
+function filterProducts(list: Product[], filterText: string): Product[] {
+  const q = filterText.trim().toLowerCase();
+  if (!q) return list;
+  return list.filter((p) =>
+    [p.sku, p.title, p.color, p.size]
+      .filter(Boolean)
+      .some((v) => String(v).toLowerCase().includes(q))
+  );
+}
+
 /* ---------- small UI bits ---------- */
 
+function Tab({
+  label,
+  count,
+  active,
+  onClick,
+}: {
+  label: string;
+  count?: number;
+  active: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      style={{
+        padding: "8px 12px",
+        border: "none",
+        borderBottom: active ? "2px solid #111" : "2px solid transparent",
+        borderRadius: 0,
+        background: "none",
+        color: active ? "#111" : "#666",
+        fontWeight: active ? 600 : 400,
+        cursor: "pointer",
+      }}
+    >
+      {label}
+      {count ? (
+        <span
+          style={{
+            marginLeft: 6,
+            padding: "0 6px",
+            borderRadius: 999,
+            background: "#fde68a",
+            color: "#7a5b00",
+            fontSize: 11,
+          }}
+        >
+          {count}
+        </span>
+      ) : null}
+    </button>
+  );
+}
+
 function Chip({
   label,
+  hint,
   active,
   disabled,
   onClick,
 }: {
   label: string;
+  hint?: string; // keyboard shortcut
   active: boolean;
   disabled?: boolean;
   onClick: () => void;
@@ -402,72 +1202,10 @@ function Chip({
         color: disabled ? "#999" : active ? "#fff" : "#111",
         cursor: disabled ? "not-allowed" : "pointer",
       }}
+      title={hint && `Press ${hint}`}
     >
       {label}
+      {hint && <span style={{ marginLeft: 6, fontSize: 11, opacity: 0.5 }}>{hint}</span>}
     </button>
   );
 }
-
-/* ---------- copy-block builders ---------- */
-
-function buildCopyBlock(
-  b: BaseProduct,
-  features: Set<FeatureCode>,
-  descriptions: Record<string, string>
-): string {
-  // Combine base inherent flags with user toggles
-  const tags = new Set<string>([b.tier]);
-  if (b.organic || features.has("organic")) tags.add("organic");
-  if (b.usa_made || features.has("usa_made")) tags.add("usa_made");
-  if (features.has("triblend")) tags.add("triblend");
-
-  const header =
-    `Base Product Name: ${b.label}\n` +
-    `Base Product Code: ${b.code}\n` +
-    `Retail Price: $${b.retail_price.toFixed(2)}\n` +
-    `Tier: ${TIER_LABEL[b.tier] ?? b.tier}\n` +
-    `Tags used: ${Array.from(tags).join(", ")}`;
-
-  const body = buildDescription(b, descriptions);
-
-  return `${header}\n\n${body}`;
-}
-
-function buildDescription(b: BaseProduct, descriptions: Record<string, string>): string {
-  // Prefer shop description by base code; fall back to quick defaults
-  const shop = normalizeDescription(descriptions[b.code]);
-  if (shop) return shop;
-
-  // targeted fallback for known special base(s)
-  if (b.code === "AS4062") {
-    return normalizeDescription(
-      "A modern cropped tee with a relaxed silhouette that pairs easily with high-waisted bottoms.\n" +
-        "- Midweight combed cotton (heathers may vary)\n" +
-        "- Relaxed fit, cropped length\n" +
-        "- Ribbed crew neck, side-seamed\n" +
-        "- Preshrunk to minimize shrinkage"
-    );
-  }
-
-  // generic minimal fallback
-  return normalizeDescription(`- ${b.fit_notes || "Comfortable everyday fit"}\n- Brand: ${b.brand} ${b.model_name}`);
-}
-
-/* ---------- button styles ---------- */
-
-const primaryBtn: CSSProperties = {
-  padding: "8px 12px",
-  borderRadius: 12,
-  border: "1px solid #111",
-  background: "#111",
-  color: "#fff",
-  cursor: "pointer",
-};
-const secondaryBtn: CSSProperties = {
-  padding: "8px 12px",
-  borderRadius: 12,
-  border: "1px solid #ddd",
-  background: "#fff",
-  color: "#111",
-  cursor: "pointer",
-};
@@ -0,0 +1,268 @@
+import { useEffect, useMemo, useState, type CSSProperties } from "react";
+import {
+  clearDraft,
+  diffTable,
+  draftTierMaps,
+  EDITOR_TABLES,
+  loadDraft,
+  loadEditorTables,
+  previewTier,
+  saveDraft,
+  TIER_SOURCE_LABEL,
+  tableToCSV,
+  validateDraft,
+  type CatalogDraft,
+  type EditorRow,
+  type EditorTableKey,
+} from "./catalogDraft";
+import { dateStamp, downloadBlob, downloadText } from "./download";
+import { CATEGORY_LABEL, TIER_LABEL } from "./labels";
+import { primaryBtn, secondaryBtn } from "./styles";
+import { buildZip } from "./zip";
+
+// Editor for base_products.csv and both tier maps. Changes are kept as a local
+// draft and leave the app as downloaded CSVs; nothing is written back here.
+export default function CatalogEditor() {
+  const [original, setOriginal] = useState<CatalogDraft | null>(null);
+  const [draft, setDraft] = useState<CatalogDraft | null>(null);
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+  const [tab, setTab] = useState<EditorTableKey>("bases");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadEditorTables()
+      .then((tables) => {
+        const saved = loadDraft();
+        setOriginal(tables);
+        setDraft(saved?.draft ?? tables);
+        setSavedAt(saved?.savedAt ?? null);
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : String(e)));
+  }, []);
+
+  const issues = useMemo(() => (draft ? validateDraft(draft) : []), [draft]);
+  const maps = useMemo(() => (draft ? draftTierMaps(draft) : null), [draft]);
+  const diffs = useMemo(
+    () =>
+      original && draft
+        ? EDITOR_TABLES.map((t) => ({ ...t, ...diffTable(original[t.key], draft[t.key]) }))
+        : [],
+    [original, draft]
+  );
+
+  if (error) return <p style={{ marginTop: 20, color: "#b00" }}>{error}</p>;
+  if (!draft || !original || !maps) return <p style={{ marginTop: 20 }}>Loading editor…</p>;
+
+  const changed = diffs.filter((d) => d.added.length || d.removed.length);
+  const errors = issues.filter((i) => i.severity === "error");
+  const table = draft[tab];
+  const file = EDITOR_TABLES.find((t) => t.key === tab)!.schema.file;
+  const tabIssues = issues.filter((i) => i.table === tab);
+  const cellIssue = (row: number, column: string) => tabIssues.find((i) => i.row === row && i.column === column);
+
+  function update(next: CatalogDraft) {
+    setDraft(next);
+    setSavedAt(saveDraft(next).savedAt);
+  }
+
+  function setCell(row: number, column: string, value: string) {
+    const rows = table.rows.map((r, i) => (i === row ? { ...r, [column]: value } : r));
+    update({ ...draft!, [tab]: { ...table, rows } });
+  }
+
+  function addRow() {
+    const blank: EditorRow = Object.fromEntries(table.columns.map((c) => [c, ""]));
+    if (tab === "bases") Object.assign(blank, { organic: "false", usa_made: "false", active: "true" });
+    update({ ...draft!, [tab]: { ...table, rows: [...table.rows, blank] } });
+  }
+
+  function removeRow(row: number) {
+    update({ ...draft!, [tab]: { ...table, rows: table.rows.filter((_, i) => i !== row) } });
+  }
+
+  function discard() {
+    if (!window.confirm("Discard all local edits?")) return;
+    clearDraft();
+    setDraft(original);
+    setSavedAt(null);
+  }
+
+  function downloadAll() {
+    const entries = EDITOR_TABLES.map((t) => ({ name: t.schema.file, data: tableToCSV(draft![t.key]) }));
+    downloadBlob(buildZip(entries), `catalog_edits_${dateStamp()}.zip`);
+  }
+
+  return (
+    <div style={{ marginTop: 20 }}>
+      <h2 style={{ marginBottom: 8 }}>Catalog editor</h2>
+      <p style={{ marginTop: 0, color: "#666", fontSize: 13 }}>
+        Edits are kept in this browser
+        {savedAt ? ` (draft saved ${new Date(savedAt).toLocaleString()})` : ""} until you download them. Replace the
+        files in <code>public/data</code> with the download to apply. Tier precedence: base_products.csv →
+        tier_map.csv → brand_tier_map.csv.
+      </p>
+
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginBottom: 12 }}>
+        <button onClick={downloadAll} disabled={changed.length === 0} style={primaryBtn}>
+          Download edited CSVs (ZIP)
+        </button>
+        <button
+          onClick={() => downloadText(tableToCSV(table), file, "text/csv")}
+          style={{ ...secondaryBtn, padding: "6px 10px" }}
+        >
+          Download {file}
+        </button>
+        <button onClick={discard} disabled={changed.length === 0} style={{ ...secondaryBtn, padding: "6px 10px" }}>
+          Discard draft
+        </button>
+        <span style={{ fontSize: 12, color: errors.length ? "#b00" : "#666" }}>
+          {errors.length
+            ? `${errors.length} error${errors.length === 1 ? "" : "s"} — fix before exporting`
+            : changed.length
+              ? `${changed.length} file${changed.length === 1 ? "" : "s"} changed`
+              : "No local changes"}
+        </span>
+      </div>
+
+      <div style={{ display: "flex", gap: 4, marginBottom: 8 }}>
+        {EDITOR_TABLES.map((t) => {
+          const n = issues.filter((i) => i.table === t.key && i.severity === "error").length;
+          return (
+            <button
+              key={t.key}
+              onClick={() => setTab(t.key)}
+              style={{
+                ...secondaryBtn,
+                padding: "4px 10px",
+                fontSize: 13,
+                background: tab === t.key ? "#111" : "#fff",
+                color: tab === t.key ? "#fff" : "#111",
+              }}
+            >
+              {t.schema.file}
+              {n > 0 && <span style={{ marginLeft: 6, color: tab === t.key ? "#fbb" : "#b00" }}>{n}</span>}
+            </button>
+          );
+        })}
+      </div>
+
+      <datalist id="editor-categories">
+        {Object.keys(CATEGORY_LABEL).map((c) => (
+          <option key={c} value={c} />
+        ))}
+      </datalist>
+      <datalist id="editor-tiers">
+        {Object.keys(TIER_LABEL).map((t) => (
+          <option key={t} value={t} />
+        ))}
+      </datalist>
+
+      <div style={{ overflowX: "auto" }}>
+        <table style={{ borderCollapse: "collapse", fontSize: 13 }}>
+          <thead>
+            <tr>
+              {table.columns.map((c) => (
+                <th key={c} style={{ ...cell, textAlign: "left" }}>
+                  {c}
+                </th>
+              ))}
+              {tab === "bases" && <th style={{ ...cell, textAlign: "left" }}>resolved tier</th>}
+              <th style={cell} />
+            </tr>
+          </thead>
+          <tbody>
+            {table.rows.map((r, i) => {
+              const resolved = tab === "bases" ? previewTier(r, maps) : null;
+              return (
+                <tr key={i}>
+                  {table.columns.map((c) => {
+                    const issue = cellIssue(i, c);
+                    const border = issue ? `1px solid ${issue.severity === "error" ? "#d33" : "#e0a800"}` : "1px solid #ddd";
+                    const boolean = tab === "bases" && ["organic", "usa_made", "active"].includes(c);
+                    return (
+                      <td key={c} style={cell} title={issue?.message}>
+                        {boolean ? (
+                          <select value={r[c] ?? ""} onChange={(e) => setCell(i, c, e.target.value)} style={{ ...input, border }}>
+                            <option value="true">true</option>
+                            <option value="false">false</option>
+                            {r[c] !== "true" && r[c] !== "false" && <option value={r[c] ?? ""}>{r[c] || "(blank)"}</option>}
+                          </select>
+                        ) : (
+                          <input
+                            value={r[c] ?? ""}
+                            onChange={(e) => setCell(i, c, e.target.value)}
+                            list={c === "category" ? "editor-categories" : c === "tier" ? "editor-tiers" : undefined}
+                            size={c === "label" || c === "fit_notes" ? 28 : c === "retail_price" ? 7 : 14}
+                            style={{ ...input, border }}
+                          />
+                        )}
+                      </td>
+                    );
+                  })}
+                  {resolved && (
+                    <td style={{ ...cell, whiteSpace: "nowrap" }}>
+                      {resolved.tier || <span style={{ color: "#b00" }}>—</span>}
+                      <div style={{ fontSize: 11, color: "#888" }}>from {TIER_SOURCE_LABEL[resolved.source]}</div>
+                    </td>
+                  )}
+                  <td style={cell}>
+                    <button
+                      onClick={() => removeRow(i)}
+                      title="Remove row"
+                      style={{ border: "none", background: "none", cursor: "pointer", color: "#888" }}
+                    >
+                      ×
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <button onClick={addRow} style={{ ...secondaryBtn, padding: "6px 10px", marginTop: 8 }}>
+        Add row
+      </button>
+
+      {tabIssues.length > 0 && (
+        <ul style={{ fontSize: 13, paddingLeft: 18 }}>
+          {tabIssues.map((i, n) => (
+            <li key={n} style={{ color: i.severity === "error" ? "#b00" : "#8a6d00" }}>
+              Row {i.row + 1} ({table.rows[i.row]?.[EDITOR_TABLES.find((t) => t.key === tab)!.keyColumn] || "new"}):{" "}
+              {i.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {changed.length > 0 && (
+        <div style={{ marginTop: 16 }}>
+          <h3 style={{ margin: "0 0 6px", fontSize: 16 }}>Changes</h3>
+          {changed.map((d) => (
+            <pre key={d.key} style={{ fontSize: 12, background: "#fafafa", padding: 8, borderRadius: 8, overflowX: "auto" }}>
+              <strong>{d.schema.file}</strong>
+              {"\n"}
+              {d.removed.map((l, n) => (
+                <div key={`-${n}`} style={{ color: "#b00" }}>
+                  - {l}
+                </div>
+              ))}
+              {d.added.map((l, n) => (
+                <div key={`+${n}`} style={{ color: "#2a7a2a" }}>
+                  + {l}
+                </div>
+              ))}
+            </pre>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const cell: CSSProperties = {
+  padding: "4px 6px",
+  borderBottom: "1px solid #eee",
+  verticalAlign: "top",
+};
+const input: CSSProperties = { padding: "3px 6px", borderRadius: 6, fontSize: 13 };
@@ -0,0 +1,210 @@
+import { useMemo, useState } from "react";
+import type { FeatureDef } from "./features";
+import { CATEGORY_LABEL, TIER_LABEL } from "./labels";
+import type { BaseProduct } from "./loadBaseProducts";
+import type { Product } from "./loadProducts";
+import {
+  computeFacets,
+  FACET_FIELDS,
+  parseQuery,
+  searchCatalog,
+  toggleFilterInQuery,
+  type CatalogRow,
+} from "./searchQuery";
+import { sortSizes } from "./sizes";
+import { secondaryBtn } from "./styles";
+
+const FACET_LIMIT = 12;
+
+const EXAMPLES = ['color:"Forest Green" size:3XL', "organic:true price<45", 'brand:"Bella + Canvas" tier:mid'];
+
+// Catalog-wide variant search with facet counts; results are grouped by base.
+export default function CatalogSearch({
+  bases,
+  products,
+  featureDefs,
+  onSelectBase,
+}: {
+  bases: BaseProduct[];
+  products: Product[];
+  featureDefs: FeatureDef[];
+  onSelectBase: (code: string) => void;
+}) {
+  const [query, setQuery] = useState("");
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const rows = useMemo<CatalogRow[]>(() => {
+    const byCode = new Map(bases.map((b) => [b.code, b]));
+    return products.flatMap((p) => {
+      const base = byCode.get(p.base_code);
+      return base ? [{ product: p, base }] : [];
+    });
+  }, [bases, products]);
+
+  const parsed = useMemo(() => parseQuery(query), [query]);
+  const matches = useMemo(() => searchCatalog(rows, parsed, featureDefs), [rows, parsed, featureDefs]);
+  const facets = useMemo(() => computeFacets(matches), [matches]);
+
+  const byBase = useMemo(() => {
+    const groups = new Map<string, CatalogRow[]>();
+    for (const r of matches) {
+      const list = groups.get(r.base.code);
+      if (list) list.push(r);
+      else groups.set(r.base.code, [r]);
+    }
+    return Array.from(groups.values());
+  }, [matches]);
+
+  function facetLabel(field: string, value: string) {
+    if (field === "category") return CATEGORY_LABEL[value] ?? value;
+    if (field === "tier") return TIER_LABEL[value] ? `${TIER_LABEL[value]} (${value})` : value;
+    return value;
+  }
+
+  return (
+    <div style={{ marginTop: 20 }}>
+      <h2 style={{ marginBottom: 8 }}>Search the catalog</h2>
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder='e.g. color:black size:XL brand:"AS Colour" price<40'
+          style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid #ddd", width: 480, maxWidth: "100%" }}
+        />
+        {query && (
+          <button onClick={() => setQuery("")} style={{ ...secondaryBtn, padding: "6px 10px" }}>
+            Clear
+          </button>
+        )}
+        <span style={{ color: "#666", fontSize: 12 }}>
+          {matches.length} variants in {byBase.length} bases
+        </span>
+      </div>
+      <div style={{ fontSize: 12, color: "#888", marginTop: 4 }}>
+        Fields: color, size, brand, category, tier, price (&lt; &lt;= &gt; &gt;=), organic, usa_made, feature
+        ({featureDefs.map((f) => f.code).join(", ")}), sku, base, title.
+        Try{" "}
+        {EXAMPLES.map((ex, i) => (
+          <span key={ex}>
+            {i > 0 && " · "}
+            <a
+              href="#"
+              onClick={(e) => {
+                e.preventDefault();
+                setQuery(ex);
+              }}
+            >
+              {ex}
+            </a>
+          </span>
+        ))}
+      </div>
+      {parsed.errors.length > 0 && (
+        <div style={{ color: "#b00", fontSize: 12, marginTop: 4 }}>{parsed.errors.join(" · ")}</div>
+      )}
+
+      <div style={{ display: "grid", gridTemplateColumns: "220px 1fr", gap: 16, marginTop: 12 }}>
+        {/* Facets */}
+        <aside style={{ fontSize: 13 }}>
+          {FACET_FIELDS.map((field) => (
+            <div key={field} style={{ marginBottom: 12 }}>
+              <div style={{ fontWeight: 600, textTransform: "capitalize", marginBottom: 2 }}>{field}</div>
+              {facets[field].length === 0 && <div style={{ color: "#aaa" }}>—</div>}
+              {facets[field].slice(0, FACET_LIMIT).map(({ value, count }) => (
+                <button
+                  key={value}
+                  onClick={() => setQuery((q) => toggleFilterInQuery(q, field, value))}
+                  style={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    width: "100%",
+                    padding: "2px 4px",
+                    border: "none",
+                    borderRadius: 4,
+                    background: "none",
+                    textAlign: "left",
+                    cursor: "pointer",
+                    fontSize: 13,
+                  }}
+                >
+                  <span>{facetLabel(field, value)}</span>
+                  <span style={{ color: "#888" }}>{count}</span>
+                </button>
+              ))}
+              {facets[field].length > FACET_LIMIT && (
+                <div style={{ color: "#aaa", fontSize: 12 }}>+{facets[field].length - FACET_LIMIT} more</div>
+              )}
+            </div>
+          ))}
+        </aside>
+
+        {/* Results grouped by base */}
+        <div>
+          {byBase.length === 0 && <p style={{ color: "#777", marginTop: 0 }}>No variants match.</p>}
+          {byBase.map((list) => {
+            const b = list[0].base;
+            const open = expanded.has(b.code);
+            return (
+              <div
+                key={b.code}
+                style={{ border: "1px solid #e5e5e5", borderRadius: 12, padding: "8px 12px", marginBottom: 8 }}
+              >
+                <div style={{ display: "flex", justifyContent: "space-between", gap: 8, flexWrap: "wrap" }}>
+                  <a
+                    href="#"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      onSelectBase(b.code);
+                    }}
+                    style={{ fontWeight: 600 }}
+                  >
+                    {b.label}
+                  </a>
+                  <span style={{ color: "#666", fontSize: 12 }}>
+                    {CATEGORY_LABEL[b.category] ?? b.category} · ${b.retail_price.toFixed(2)} · {list.length} variant
+                    {list.length === 1 ? "" : "s"}
+                  </span>
+                </div>
+                <div style={{ fontSize: 12, color: "#555", marginTop: 2 }}>
+                  Colors: {Array.from(new Set(list.map((r) => r.product.color))).join(", ")}
+                  <br />
+                  Sizes: {sortSizes(list.map((r) => r.product.size)).join(", ")}
+                </div>
+                <button
+                  onClick={() =>
+                    setExpanded((prev) => {
+                      const next = new Set(prev);
+                      if (open) next.delete(b.code);
+                      else next.add(b.code);
+                      return next;
+                    })
+                  }
+                  style={{
+                    padding: 0,
+                    border: "none",
+                    background: "none",
+                    color: "#555",
+                    textDecoration: "underline",
+                    cursor: "pointer",
+                    fontSize: 12,
+                  }}
+                >
+                  {open ? "hide SKUs" : "show SKUs"}
+                </button>
+                {open && (
+                  <ul style={{ margin: "4px 0 0", paddingLeft: 18, fontSize: 12 }}>
+                    {list.map((r) => (
+                      <li key={r.product.sku}>
+                        <code>{r.product.sku}</code> — {r.product.title}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
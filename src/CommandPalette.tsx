@@ -0,0 +1,100 @@
+import { useEffect, useMemo, useRef, useState, type CSSProperties } from "react";
+import { fuzzyFilter } from "./fuzzy";
+import { SHORTCUTS } from "./shortcuts";
+
+export type PaletteItem = {
+  id: string;
+  group: "Action" | "Base" | "Variant";
+  label: string;
+  detail?: string;
+  search: string; // text the query is matched against
+  run: () => void;
+};
+
+// Ctrl+K palette: fuzzy search over actions, every base and every variant.
+export default function CommandPalette({ items, onClose }: { items: PaletteItem[]; onClose: () => void }) {
+  const [query, setQuery] = useState("");
+  const [cursor, setCursor] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const results = useMemo(() => fuzzyFilter(items, query, (i) => i.search), [items, query]);
+  const active = Math.min(cursor, Math.max(results.length - 1, 0));
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${active}"]`)?.scrollIntoView({ block: "nearest" });
+  }, [active]);
+
+  function run(item: PaletteItem | undefined) {
+    if (!item) return;
+    onClose();
+    item.run();
+  }
+
+  return (
+    <div
+      onClick={onClose}
+      style={{ position: "fixed", inset: 0, background: "rgba(0,0,0,0.25)", zIndex: 900, display: "flex", justifyContent: "center" }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          marginTop: "12vh",
+          width: "min(640px, 92vw)",
+          maxHeight: "70vh",
+          display: "flex",
+          flexDirection: "column",
+          background: "#fff",
+          color: "#111",
+          borderRadius: 12,
+          boxShadow: "0 12px 40px rgba(0,0,0,0.25)",
+          overflow: "hidden",
+        }}
+      >
+        <input
+          autoFocus
+          value={query}
+          placeholder="Base code, label, SKU or action…"
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setCursor(0);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "ArrowDown") setCursor(Math.min(active + 1, results.length - 1));
+            else if (e.key === "ArrowUp") setCursor(Math.max(active - 1, 0));
+            else if (e.key === "Enter") run(results[active]);
+            else if (e.key === "Escape") onClose();
+            else return;
+            e.preventDefault();
+          }}
+          style={{ padding: "12px 14px", fontSize: 16, border: "none", borderBottom: "1px solid #eee", outline: "none" }}
+        />
+        <div ref={listRef} style={{ overflowY: "auto" }}>
+          {results.length === 0 && <p style={{ margin: 0, padding: 14, color: "#888", fontSize: 13 }}>No matches.</p>}
+          {results.map((item, n) => (
+            <div
+              key={item.id}
+              data-index={n}
+              onMouseMove={() => n !== active && setCursor(n)}
+              onClick={() => run(item)}
+              style={{ ...row, background: n === active ? "#f0f0f0" : undefined }}
+            >
+              <span style={groupTag}>{item.group}</span>
+              <span style={{ fontWeight: 500 }}>{item.label}</span>
+              {item.detail && <span style={{ color: "#777", fontSize: 12, marginLeft: 8 }}>{item.detail}</span>}
+            </div>
+          ))}
+        </div>
+        <div style={{ padding: "6px 14px", borderTop: "1px solid #eee", color: "#888", fontSize: 11 }}>
+          {SHORTCUTS.map(([keys, action]) => (
+            <span key={keys} style={{ marginRight: 12, whiteSpace: "nowrap" }}>
+              <kbd>{keys}</kbd> {action}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const row: CSSProperties = { padding: "8px 14px", cursor: "pointer", fontSize: 14, display: "flex", alignItems: "baseline" };
+const groupTag: CSSProperties = { width: 56, flex: "none", color: "#999", fontSize: 11, textTransform: "uppercase" };
@@ -0,0 +1,193 @@
+import { useMemo, type CSSProperties } from "react";
+import { buildDescription } from "./copyBlock";
+import { CATEGORY_LABEL, TIER_LABEL } from "./labels";
+import type { BaseProduct } from "./loadBaseProducts";
+import type { Descriptions } from "./loadDescriptions";
+import type { Product } from "./loadProducts";
+import { sortSizes } from "./sizes";
+import { secondaryBtn } from "./styles";
+import type { Templates } from "./templates";
+
+export const MAX_COMPARE = 4;
+const DESCRIPTION_LINES = 3;
+
+type Row = {
+  label: string;
+  values: string[];
+  list?: boolean; // set-valued: highlight entries missing elsewhere instead of the whole cell
+};
+
+// Side-by-side table for 2–4 bases; rows whose values differ are highlighted.
+export default function CompareView({
+  bases,
+  products,
+  descriptions,
+  templates,
+  codes,
+  onChange,
+  onSelectBase,
+}: {
+  bases: BaseProduct[];
+  products: Product[];
+  descriptions: Descriptions;
+  templates: Templates;
+  codes: string[];
+  onChange: (codes: string[]) => void;
+  onSelectBase: (code: string) => void;
+}) {
+  const picked = useMemo(
+    () => codes.map((c) => bases.find((b) => b.code === c)).filter((b): b is BaseProduct => !!b),
+    [codes, bases]
+  );
+
+  const rows = useMemo<Row[]>(() => {
+    const variants = picked.map((b) => products.filter((p) => p.base_code === b.code));
+    const colors = variants.map((list) => Array.from(new Set(list.map((p) => p.color).filter(Boolean))));
+    const sizes = variants.map((list) => sortSizes(list.map((p) => p.size).filter(Boolean)));
+    const yesNo = (v: boolean) => (v ? "Yes" : "No");
+
+    return [
+      { label: "Category", values: picked.map((b) => CATEGORY_LABEL[b.category] ?? b.category) },
+      { label: "Brand", values: picked.map((b) => b.brand) },
+      { label: "Model", values: picked.map((b) => b.model_name) },
+      { label: "Tier", values: picked.map((b) => `${TIER_LABEL[b.tier] ?? b.tier} (${b.tier || "none"})`) },
+      { label: "Organic", values: picked.map((b) => yesNo(b.organic)) },
+      { label: "Made in USA", values: picked.map((b) => yesNo(b.usa_made)) },
+      { label: "Retail price", values: picked.map((b) => `$${b.retail_price.toFixed(2)}`) },
+      { label: "Fit notes", values: picked.map((b) => b.fit_notes) },
+      { label: "Variants", values: variants.map((list) => String(list.length)) },
+      { label: "Colors", values: colors.map((c) => c.join("\n")), list: true },
+      { label: "Sizes", values: sizes.map((s) => s.join("\n")), list: true },
+      {
+        label: "Description",
+        values: picked.map((b) =>
+          buildDescription(b, descriptions, templates)
+            .split("\n")
+            .filter((l) => l.trim())
+            .slice(0, DESCRIPTION_LINES)
+            .join("\n")
+        ),
+      },
+    ];
+  }, [picked, products, descriptions, templates]);
+
+  const available = bases.filter((b) => !codes.includes(b.code));
+
+  return (
+    <div style={{ marginTop: 20 }}>
+      <h2 style={{ marginBottom: 8 }}>Compare bases</h2>
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginBottom: 12 }}>
+        <select
+          value=""
+          disabled={codes.length >= MAX_COMPARE}
+          onChange={(e) => e.target.value && onChange([...codes, e.target.value])}
+          style={{ padding: "6px 8px", borderRadius: 10, border: "1px solid #ddd" }}
+        >
+          <option value="">{codes.length >= MAX_COMPARE ? `Up to ${MAX_COMPARE} bases` : "Add a base…"}</option>
+          {Array.from(new Set(available.map((b) => b.category))).map((cat) => (
+            <optgroup key={cat} label={CATEGORY_LABEL[cat] ?? cat}>
+              {available
+                .filter((b) => b.category === cat)
+                .map((b) => (
+                  <option key={b.code} value={b.code}>
+                    {b.code} — {b.label}
+                  </option>
+                ))}
+            </optgroup>
+          ))}
+        </select>
+        {codes.length > 0 && (
+          <button onClick={() => onChange([])} style={{ ...secondaryBtn, padding: "6px 10px" }}>
+            Clear
+          </button>
+        )}
+        <span style={{ color: "#666", fontSize: 12 }}>Pick 2–{MAX_COMPARE} bases. Differences are highlighted.</span>
+      </div>
+
+      {picked.length < 2 ? (
+        <p style={{ color: "#777" }}>
+          {picked.length === 0 ? "No bases picked yet." : "Add at least one more base to compare."}
+        </p>
+      ) : (
+        <div style={{ overflowX: "auto" }}>
+          <table style={{ borderCollapse: "collapse", fontSize: 13, width: "100%" }}>
+            <thead>
+              <tr>
+                <th style={{ ...cell, width: 120 }} />
+                {picked.map((b) => (
+                  <th key={b.code} style={{ ...cell, textAlign: "left" }}>
+                    <a
+                      href="#"
+                      onClick={(e) => {
+                        e.preventDefault();
+                        onSelectBase(b.code);
+                      }}
+                    >
+                      {b.code}
+                    </a>
+                    <button
+                      onClick={() => onChange(codes.filter((c) => c !== b.code))}
+                      title="Remove from comparison"
+                      style={{ marginLeft: 6, border: "none", background: "none", cursor: "pointer", color: "#888" }}
+                    >
+                      ×
+                    </button>
+                    <div style={{ fontWeight: 400, color: "#666", fontSize: 12 }}>{b.label}</div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => {
+                const differs = new Set(row.values).size > 1;
+                return (
+                  <tr key={row.label}>
+                    <th style={{ ...cell, textAlign: "left", color: "#555" }}>{row.label}</th>
+                    {row.values.map((v, i) => (
+                      <td
+                        key={i}
+                        style={{
+                          ...cell,
+                          whiteSpace: "pre-wrap",
+                          background: differs && !row.list ? "#fffbeb" : undefined,
+                        }}
+                      >
+                        {row.list ? <ListCell value={v} all={row.values} /> : v || <span style={{ color: "#aaa" }}>—</span>}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Newline-separated set; entries not offered by every other base are highlighted
+function ListCell({ value, all }: { value: string; all: string[] }) {
+  const items = value ? value.split("\n") : [];
+  const sets = all.map((v) => new Set(v ? v.split("\n") : []));
+  if (items.length === 0) return <span style={{ color: "#aaa" }}>—</span>;
+  return (
+    <>
+      {items.map((item, n) => {
+        const shared = sets.every((s) => s.has(item));
+        return (
+          <span key={item}>
+            {n > 0 && ", "}
+            <span style={shared ? undefined : { background: "#fffbeb", fontWeight: 600 }}>{item}</span>
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
+const cell: CSSProperties = {
+  padding: "6px 8px",
+  borderBottom: "1px solid #eee",
+  verticalAlign: "top",
+};
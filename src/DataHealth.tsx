@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { HEALTH_KIND_LABEL, type HealthFinding, type HealthKind } from "./healthChecks";
+
+const KIND_ORDER: HealthKind[] = [
+  "orphan_variants",
+  "no_inventory",
+  "duplicate_sku",
+  "unknown_tier",
+  "unknown_category",
+  "no_description",
+];
+
+// "Data health" view: one section per finding kind, each row links to its base(s).
+export default function DataHealth({
+  findings,
+  activeCodes,
+  onSelectBase,
+}: {
+  findings: HealthFinding[];
+  activeCodes: Set<string>;
+  onSelectBase: (code: string) => void;
+}) {
+  const [open, setOpen] = useState<Set<number>>(new Set());
+
+  if (findings.length === 0) {
+    return <p style={{ marginTop: 20, color: "#2a7a2a" }}>No catalog drift found.</p>;
+  }
+
+  function toggle(i: number) {
+    setOpen((prev) => {
+      const next = new Set(prev);
+      if (next.has(i)) next.delete(i);
+      else next.add(i);
+      return next;
+    });
+  }
+
+  return (
+    <div style={{ marginTop: 20 }}>
+      <h2 style={{ marginBottom: 8 }}>Data health</h2>
+      {KIND_ORDER.map((kind) => {
+        const rows = findings
+          .map((f, i) => ({ f, i }))
+          .filter(({ f }) => f.kind === kind);
+        if (rows.length === 0) return null;
+        return (
+          <section key={kind} style={{ marginTop: 16 }}>
+            <h3 style={{ margin: "0 0 6px", fontSize: 16 }}>
+              {HEALTH_KIND_LABEL[kind]} <span style={{ color: "#888", fontWeight: 400 }}>({rows.length})</span>
+            </h3>
+            <ul style={{ margin: 0, paddingLeft: 18, fontSize: 14 }}>
+              {rows.map(({ f, i }) => (
+                <li key={i} style={{ marginBottom: 4 }}>
+                  {f.message}
+                  {f.baseCodes.length > 0 && " — "}
+                  {f.baseCodes.map((code, n) => (
+                    <span key={code}>
+                      {n > 0 && ", "}
+                      {activeCodes.has(code) ? (
+                        <a
+                          href="#"
+                          onClick={(e) => {
+                            e.preventDefault();
+                            onSelectBase(code);
+                          }}
+                        >
+                          {code}
+                        </a>
+                      ) : (
+                        <code>{code}</code>
+                      )}
+                    </span>
+                  ))}
+                  {f.details && f.details.length > 0 && (
+                    <>
+                      {" "}
+                      <button
+                        onClick={() => toggle(i)}
+                        style={{
+                          padding: 0,
+                          border: "none",
+                          background: "none",
+                          color: "#555",
+                          textDecoration: "underline",
+                          cursor: "pointer",
+                          fontSize: 12,
+                        }}
+                      >
+                        {open.has(i) ? "hide" : `${f.details.length} detail${f.details.length === 1 ? "" : "s"}`}
+                      </button>
+                      {open.has(i) && (
+                        <ul style={{ margin: "2px 0", paddingLeft: 18, color: "#555", fontSize: 12 }}>
+                          {f.details.map((d, n) => (
+                            <li key={n}>{d}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { useMemo, useState } from "react";
+import { summarizeIssues, type DataIssue } from "./dataSchema";
+
+// Banner listing what the CSV loaders rejected or had to guess at.
+export default function DataReport({ issues }: { issues: DataIssue[] }) {
+  const [open, setOpen] = useState<string | null>(null);
+  const summaries = useMemo(() => summarizeIssues(issues), [issues]);
+
+  if (summaries.length === 0) return null;
+  const hasErrors = summaries.some((s) => s.severity === "error");
+
+  return (
+    <div
+      className="no-print"
+      style={{
+        marginTop: 12,
+        padding: "10px 12px",
+        borderRadius: 12,
+        border: `1px solid ${hasErrors ? "#f0b4b4" : "#f0dca0"}`,
+        background: hasErrors ? "#fff5f5" : "#fffbeb",
+        fontSize: 13,
+      }}
+    >
+      <div style={{ fontWeight: 600, marginBottom: 4 }}>
+        {hasErrors ? "Some catalog rows were skipped" : "Catalog data warnings"}
+      </div>
+      <ul style={{ margin: 0, paddingLeft: 18 }}>
+        {summaries.map((s) => {
+          const key = `${s.file}|${s.kind}|${s.column}|${s.severity}`;
+          const expanded = open === key;
+          return (
+            <li key={key} style={{ color: s.severity === "error" ? "#b00" : "#7a5b00" }}>
+              {s.text}
+              {s.count > 1 || s.issues[0].line !== 1 ? (
+                <button
+                  onClick={() => setOpen(expanded ? null : key)}
+                  style={{
+                    marginLeft: 6,
+                    padding: 0,
+                    border: "none",
+                    background: "none",
+                    color: "#555",
+                    textDecoration: "underline",
+                    cursor: "pointer",
+                    fontSize: 12,
+                  }}
+                >
+                  {expanded ? "hide" : "details"}
+                </button>
+              ) : null}
+              {expanded && (
+                <ul style={{ margin: "2px 0 4px", paddingLeft: 18, color: "#555" }}>
+                  {s.issues.map((i, n) => (
+                    <li key={n}>{i.message}</li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState, type CSSProperties } from "react";
+import { lintDescription, LINT_KIND_LABEL } from "./descriptionLint";
+import {
+  DESCRIPTION_MODE_LABEL,
+  loadVersions,
+  mergeDescription,
+  overridesToJSON,
+  pushVersion,
+  type DescriptionMode,
+  type DescriptionOverride,
+  type DescriptionOverrides,
+  type OverrideEdits,
+} from "./descriptionOverrides";
+import { normalizeDescription } from "./descriptionPipeline";
+import { downloadText } from "./download";
+import type { BaseProduct } from "./loadBaseProducts";
+import type { Descriptions } from "./loadDescriptions";
+import { lineDiff } from "./snapshotDiff";
+import { primaryBtn, secondaryBtn } from "./styles";
+
+// "Descriptions" view: curated per-base overrides of the swept shop text.
+// Saved edits apply to the copy block right away and leave the app as a
+// downloaded description_overrides.json.
+export default function DescriptionEditor({
+  bases,
+  shop,
+  overrides,
+  edits,
+  onChangeEdits,
+  onDiscardEdits,
+  initialCode,
+}: {
+  bases: BaseProduct[];
+  shop: Descriptions; // descriptions.json as swept
+  overrides: DescriptionOverrides; // file + local edits
+  edits: OverrideEdits;
+  onChangeEdits: (edits: OverrideEdits) => void;
+  onDiscardEdits: () => void;
+  initialCode: string | null;
+}) {
+  const [code, setCode] = useState(initialCode ?? bases[0]?.code ?? "");
+  const editCount = Object.keys(edits).length;
+
+  return (
+    <div style={{ marginTop: 20, fontSize: 14 }}>
+      <h2 style={{ marginBottom: 8 }}>Description overrides</h2>
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginBottom: 12 }}>
+        <select value={code} onChange={(e) => setCode(e.target.value)} style={select}>
+          {bases.map((b) => (
+            <option key={b.code} value={b.code}>
+              {b.code} — {b.label}
+              {overrides[b.code] ? ` (${DESCRIPTION_MODE_LABEL[overrides[b.code].mode].toLowerCase()})` : ""}
+            </option>
+          ))}
+        </select>
+        <span style={{ color: "#666", fontSize: 12 }}>
+          {Object.keys(overrides).length} override{Object.keys(overrides).length === 1 ? "" : "s"}
+          {editCount > 0 && `, ${editCount} not yet in description_overrides.json`}
+        </span>
+        <button
+          onClick={() => downloadText(overridesToJSON(overrides), "description_overrides.json", "application/json")}
+          style={{ ...secondaryBtn, marginLeft: "auto" }}
+        >
+          Download description_overrides.json
+        </button>
+        <button
+          onClick={() => window.confirm("Discard all local description edits?") && onDiscardEdits()}
+          disabled={editCount === 0}
+          style={secondaryBtn}
+        >
+          Discard local edits
+        </button>
+      </div>
+
+      {code && (
+        <OverrideForm
+          key={code}
+          code={code}
+          shop={shop[code] ?? ""}
+          saved={overrides[code] ?? null}
+          onSave={(o) => onChangeEdits({ ...edits, [code]: o })}
+          onRemove={() => onChangeEdits({ ...edits, [code]: null })}
+        />
+      )}
+    </div>
+  );
+}
+
+// One base; keyed by code so switching bases starts from that base's saved override
+function OverrideForm({
+  code,
+  shop,
+  saved,
+  onSave,
+  onRemove,
+}: {
+  code: string;
+  shop: string;
+  saved: DescriptionOverride | null;
+  onSave: (o: DescriptionOverride) => void;
+  onRemove: () => void;
+}) {
+  const [text, setText] = useState(saved?.text ?? "");
+  const [mode, setMode] = useState<DescriptionMode>(saved?.mode ?? "override");
+  const [versions, setVersions] = useState<DescriptionOverride[]>(() => loadVersions(code));
+
+  const dirty = text !== (saved?.text ?? "") || mode !== (saved?.mode ?? "override");
+  const shopText = normalizeDescription(shop);
+  const result =
+    mode === "shop" || !text.trim() ? shopText : mode === "merged" ? mergeDescription(shop, text) : normalizeDescription(text);
+  const diff = lineDiff(shopText, result);
+  const findings = lintDescription(result);
+
+  function save() {
+    const o = { text, mode, updated_at: new Date().toISOString() };
+    onSave(o);
+    setVersions(pushVersion(code, o));
+  }
+
+  return (
+    <>
+      <div style={{ display: "flex", gap: 6, alignItems: "center", marginBottom: 8 }}>
+        <span style={{ color: "#555", fontSize: 13 }}>Copy block uses:</span>
+        {(Object.keys(DESCRIPTION_MODE_LABEL) as DescriptionMode[]).map((m) => (
+          <label key={m} style={{ fontSize: 13, marginRight: 8 }}>
+            <input type="radio" name="description-mode" checked={mode === m} onChange={() => setMode(m)} />{" "}
+            {DESCRIPTION_MODE_LABEL[m]}
+          </label>
+        ))}
+      </div>
+
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+        <div>
+          <div style={label}>Override</div>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={
+              mode === "merged"
+                ? "Paragraphs replace the shop intro/closing; \"- \" bullets are added to the shop's."
+                : "Full description; \"- \" lines become bullets."
+            }
+            style={{ width: "100%", minHeight: 320, boxSizing: "border-box", fontFamily: "inherit", fontSize: 13, padding: 8 }}
+          />
+        </div>
+        <div>
+          <div style={label}>Shop text (descriptions.json)</div>
+          <div style={{ ...pane, minHeight: 320 }}>{shopText || <span style={{ color: "#888" }}>No shop description.</span>}</div>
+        </div>
+      </div>
+
+      <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+        <button onClick={save} disabled={!dirty} style={primaryBtn}>
+          Save version
+        </button>
+        <button
+          onClick={() => {
+            setText(saved?.text ?? "");
+            setMode(saved?.mode ?? "override");
+          }}
+          disabled={!dirty}
+          style={secondaryBtn}
+        >
+          Revert
+        </button>
+        <button onClick={onRemove} disabled={!saved} style={secondaryBtn}>
+          Remove override
+        </button>
+      </div>
+
+      <h3 style={h3}>Against the shop text</h3>
+      {diff.length === 0 ? (
+        <p style={{ margin: 0, color: "#777", fontSize: 13 }}>Same as the shop text.</p>
+      ) : (
+        <pre style={{ whiteSpace: "pre-wrap", fontSize: 12, margin: 0 }}>
+          {diff.map((d, n) => (
+            <div key={n} style={{ color: d.op === "+" ? "#2a7a2a" : "#b00" }}>
+              {d.op} {d.line}
+            </div>
+          ))}
+        </pre>
+      )}
+      {findings.length > 0 && (
+        <ul style={{ margin: "8px 0 0", paddingLeft: 18, fontSize: 12 }}>
+          {findings.map((f) => (
+            <li key={f.kind} style={{ color: f.severity === "error" ? "#b00" : "#8a5a00" }}>
+              <strong>{LINT_KIND_LABEL[f.kind]}:</strong> {f.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <h3 style={h3}>History ({versions.length})</h3>
+      {versions.length === 0 ? (
+        <p style={{ margin: 0, color: "#777", fontSize: 13 }}>No saved versions in this browser yet.</p>
+      ) : (
+        <ul style={{ margin: 0, paddingLeft: 18, fontSize: 13 }}>
+          {versions.map((v, n) => (
+            <li key={n} style={{ marginBottom: 2 }}>
+              {new Date(v.updated_at).toLocaleString()} · {DESCRIPTION_MODE_LABEL[v.mode]} ·{" "}
+              <span style={{ color: "#666" }}>{v.text.split("\n")[0].slice(0, 80) || "(empty)"}</span>{" "}
+              <button
+                onClick={() => {
+                  setText(v.text);
+                  setMode(v.mode);
+                }}
+                style={{ border: "none", background: "none", cursor: "pointer", color: "#555", fontSize: 12 }}
+              >
+                restore
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+}
+
+const select: CSSProperties = { padding: "6px 8px", borderRadius: 8, border: "1px solid #ddd" };
+const label: CSSProperties = { fontSize: 12, color: "#666", marginBottom: 4 };
+const h3: CSSProperties = { margin: "16px 0 6px", fontSize: 16 };
+const pane: CSSProperties = {
+  whiteSpace: "pre-wrap",
+  padding: 8,
+  borderRadius: 8,
+  border: "1px solid #e5e5e5",
+  background: "#fafafa",
+  fontSize: 13,
+  lineHeight: 1.4,
+};
@@ -0,0 +1,150 @@
+import { useMemo, useState, type CSSProperties } from "react";
+import { designsMissingFromBase, type DesignCoverage } from "./designs";
+import type { Product } from "./loadProducts";
+
+// Designs on the selected base: a picker, per-design color/size coverage, and
+// designs sold on sibling bases that this base doesn't carry yet.
+export default function DesignPanel({
+  baseCode,
+  groups,
+  design,
+  onSelectDesign,
+  categoryCodes,
+  allCodes,
+  products,
+  onSelectBase,
+}: {
+  baseCode: string;
+  groups: DesignCoverage[];
+  design: string | null;
+  onSelectDesign: (key: string | null) => void;
+  categoryCodes: string[];
+  allCodes: string[];
+  products: Product[];
+  onSelectBase: (code: string) => void;
+}) {
+  const [wholeCatalog, setWholeCatalog] = useState(false);
+  const missing = useMemo(
+    () => designsMissingFromBase(baseCode, wholeCatalog ? allCodes : categoryCodes, products),
+    [baseCode, wholeCatalog, allCodes, categoryCodes, products]
+  );
+
+  return (
+    <div style={{ marginTop: 24 }}>
+      <h2 style={{ marginBottom: 8 }}>Designs on {baseCode}</h2>
+
+      <div style={{ display: "flex", gap: 6, flexWrap: "wrap", marginBottom: 8 }}>
+        <Pill label={`All designs (${groups.length})`} active={design === null} onClick={() => onSelectDesign(null)} />
+        {groups.map((g) => (
+          <Pill
+            key={g.key}
+            label={`${g.name} (${g.products.length})`}
+            active={design === g.key}
+            onClick={() => onSelectDesign(design === g.key ? null : g.key)}
+          />
+        ))}
+      </div>
+
+      {groups.length > 1 && (
+        <div style={{ overflowX: "auto" }}>
+          <table style={{ borderCollapse: "collapse", fontSize: 13 }}>
+            <thead>
+              <tr>
+                {["Design", "Editions", "Variants", "Colors", "Sizes", "Color × size coverage"].map((h) => (
+                  <th key={h} style={{ ...cell, textAlign: "left" }}>
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {groups.map((g) => (
+                <tr key={g.key} style={{ background: design === g.key ? "#f5f5f5" : undefined }}>
+                  <td style={cell}>{g.name}</td>
+                  <td style={cell}>{g.editions.join(", ") || "—"}</td>
+                  <td style={cell}>{g.products.length}</td>
+                  <td style={cell} title={g.missingColors.length ? `Missing: ${g.missingColors.join(", ")}` : undefined}>
+                    {g.colors.length}/{g.colors.length + g.missingColors.length}
+                  </td>
+                  <td style={{ ...cell, color: g.missingSizes.length ? "#b00" : undefined }}>
+                    {g.sizes.join(" ")}
+                    {g.missingSizes.length > 0 && <div style={{ fontSize: 11 }}>missing {g.missingSizes.join(", ")}</div>}
+                  </td>
+                  <td style={cell}>
+                    <span
+                      style={{
+                        display: "inline-block",
+                        width: 60,
+                        height: 6,
+                        marginRight: 6,
+                        borderRadius: 3,
+                        background: `linear-gradient(to right, #111 ${g.coverage * 100}%, #e5e5e5 0)`,
+                      }}
+                    />
+                    {Math.round(g.coverage * 100)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <p style={{ fontSize: 13, color: "#555", marginBottom: 0 }}>
+        <strong>Not on this base:</strong>{" "}
+        {missing.length === 0
+          ? `every design on ${wholeCatalog ? "the catalog" : "this category's bases"} is here.`
+          : missing.map((m, n) => (
+              <span key={m.key}>
+                {n > 0 && "; "}
+                {m.name} (on{" "}
+                {m.on.map((code, i) => (
+                  <span key={code}>
+                    {i > 0 && ", "}
+                    <a
+                      href="#"
+                      onClick={(e) => {
+                        e.preventDefault();
+                        onSelectBase(code);
+                      }}
+                    >
+                      {code}
+                    </a>
+                  </span>
+                ))}
+                )
+              </span>
+            ))}{" "}
+        <label style={{ whiteSpace: "nowrap", color: "#666", fontSize: 12 }}>
+          <input type="checkbox" checked={wholeCatalog} onChange={(e) => setWholeCatalog(e.target.checked)} /> whole
+          catalog
+        </label>
+      </p>
+    </div>
+  );
+}
+
+function Pill({ label, active, onClick }: { label: string; active: boolean; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      style={{
+        padding: "4px 10px",
+        borderRadius: 999,
+        border: active ? "1.5px solid #111" : "1px solid #ddd",
+        background: active ? "#111" : "#fff",
+        color: active ? "#fff" : "#111",
+        cursor: "pointer",
+        fontSize: 12,
+      }}
+    >
+      {label}
+    </button>
+  );
+}
+
+const cell: CSSProperties = {
+  padding: "4px 8px",
+  borderBottom: "1px solid #eee",
+  verticalAlign: "top",
+};
@@ -0,0 +1,198 @@
+import { useMemo, useState, useSyncExternalStore, type CSSProperties } from "react";
+import { toCSV } from "./dataSchema";
+import { dateStamp, downloadText } from "./download";
+import {
+  failedProducts,
+  getImageStatuses,
+  imageReportRows,
+  missingImagesByColor,
+  probeImages,
+  reportImageFailure,
+  sharedImages,
+  subscribeImageStatuses,
+} from "./imageChecks";
+import Lightbox, { type LightboxItem } from "./Lightbox";
+import type { Product } from "./loadProducts";
+import { primaryBtn, secondaryBtn } from "./styles";
+
+// "Image QA" view: broken Shopify images, images reused across colors and
+// colors with no working image, with a lightbox and a CSV report.
+export default function ImageQA({
+  products,
+  activeCodes,
+  onSelectBase,
+}: {
+  products: Product[];
+  activeCodes: Set<string>;
+  onSelectBase: (code: string) => void;
+}) {
+  const statuses = useSyncExternalStore(subscribeImageStatuses, getImageStatuses);
+  const [baseCode, setBaseCode] = useState("");
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [lightbox, setLightbox] = useState<{ items: LightboxItem[]; index: number } | null>(null);
+
+  const codes = useMemo(() => Array.from(new Set(products.map((p) => p.base_code))).sort(), [products]);
+  const scoped = useMemo(
+    () => (baseCode ? products.filter((p) => p.base_code === baseCode) : products),
+    [products, baseCode]
+  );
+  const failed = useMemo(() => failedProducts(scoped, statuses), [scoped, statuses]);
+  const shared = useMemo(() => sharedImages(scoped), [scoped]);
+  const missing = useMemo(() => missingImagesByColor(scoped, statuses), [scoped, statuses]);
+
+  const srcs = useMemo(() => Array.from(new Set(scoped.map((p) => p.image_src).filter(Boolean))), [scoped]);
+  const checked = srcs.filter((s) => statuses.has(s)).length;
+  const probing = progress !== null && progress.done < progress.total;
+
+  function checkAll() {
+    setProgress({ done: 0, total: srcs.length });
+    probeImages(srcs, (done, total) => setProgress({ done, total }));
+  }
+
+  const open = (items: LightboxItem[], index: number) => setLightbox({ items, index });
+  const baseLink = (code: string) =>
+    activeCodes.has(code) ? (
+      <a
+        href="#"
+        onClick={(e) => {
+          e.preventDefault();
+          onSelectBase(code);
+        }}
+      >
+        {code}
+      </a>
+    ) : (
+      code
+    );
+
+  const failedItems = failed.map((p) => ({ src: p.image_src, caption: `${p.sku} — ${p.title}` }));
+  const sharedItems = shared.map((s) => ({
+    src: s.image_src,
+    caption: `${s.base_codes.join(", ")}: used for ${s.colors.join(" / ")}`,
+  }));
+
+  return (
+    <div style={{ marginTop: 20, fontSize: 14 }}>
+      <h2 style={{ marginBottom: 8 }}>Image QA</h2>
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginBottom: 8 }}>
+        <select value={baseCode} onChange={(e) => setBaseCode(e.target.value)} style={select}>
+          <option value="">All bases</option>
+          {codes.map((code) => (
+            <option key={code} value={code}>
+              {code}
+            </option>
+          ))}
+        </select>
+        <button onClick={checkAll} disabled={probing || srcs.length === 0} style={primaryBtn}>
+          {probing ? `Checking… ${progress!.done}/${progress!.total}` : "Check all images"}
+        </button>
+        <span style={{ color: "#666", fontSize: 12 }}>
+          {checked}/{srcs.length} image{srcs.length === 1 ? "" : "s"} checked (the grid also records failures as you browse)
+        </span>
+        <button
+          onClick={() =>
+            downloadText(toCSV(imageReportRows(failed, shared, missing)) + "\n", `image_qa_${dateStamp()}.csv`, "text/csv")
+          }
+          disabled={failed.length + shared.length + missing.length === 0}
+          style={{ ...secondaryBtn, marginLeft: "auto" }}
+        >
+          Download report
+        </button>
+      </div>
+
+      <section style={{ marginTop: 16 }}>
+        <h3 style={h3}>Failed to load ({failed.length})</h3>
+        {failed.length === 0 ? (
+          <p style={empty}>{checked < srcs.length ? "None seen yet — run “Check all images”." : "Every image loads."}</p>
+        ) : (
+          <div style={thumbGrid}>
+            {failed.map((p, n) => (
+              <button key={p.sku} onClick={() => open(failedItems, n)} style={thumbBtn} title={p.image_src}>
+                <img src="/img/fallback.svg" alt="" style={thumb} />
+                <div style={caption}>
+                  {p.sku}
+                  <br />
+                  {p.base_code} · {p.color} / {p.size}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section style={{ marginTop: 16 }}>
+        <h3 style={h3}>Same image on different colors ({shared.length})</h3>
+        {shared.length === 0 ? (
+          <p style={empty}>Every image belongs to a single color.</p>
+        ) : (
+          <div style={thumbGrid}>
+            {shared.map((s, n) => (
+              <button key={s.image_src} onClick={() => open(sharedItems, n)} style={thumbBtn}>
+                <img
+                  src={s.image_src}
+                  alt=""
+                  loading="lazy"
+                  style={thumb}
+                  onError={(e) => {
+                    reportImageFailure(s.image_src);
+                    (e.currentTarget as HTMLImageElement).src = "/img/fallback.svg";
+                  }}
+                />
+                <div style={caption}>
+                  {s.base_codes.join(", ")} · {s.products.length} variants
+                  <br />
+                  {s.colors.join(" / ")}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section style={{ marginTop: 16 }}>
+        <h3 style={h3}>Colors without a working image ({missing.length})</h3>
+        {missing.length === 0 ? (
+          <p style={empty}>Every color has at least one image.</p>
+        ) : (
+          <ul style={{ margin: 0, paddingLeft: 18 }}>
+            {missing.map((m) => (
+              <li key={`${m.base_code}\u0000${m.color}`}>
+                {baseLink(m.base_code)} · {m.color || "(no color)"} —{" "}
+                {m.reason === "failed" ? "every image failed to load" : "no image_src"} ({m.products.length} variants)
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {lightbox && (
+        <Lightbox
+          items={lightbox.items}
+          index={lightbox.index}
+          onIndex={(index) => setLightbox({ ...lightbox, index })}
+          onClose={() => setLightbox(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+const select: CSSProperties = { padding: "6px 8px", borderRadius: 8, border: "1px solid #ddd" };
+const h3: CSSProperties = { margin: "0 0 6px", fontSize: 16 };
+const empty: CSSProperties = { margin: 0, color: "#777", fontSize: 13 };
+const thumbGrid: CSSProperties = {
+  display: "grid",
+  gridTemplateColumns: "repeat(auto-fill, minmax(140px, 1fr))",
+  gap: 8,
+};
+const thumbBtn: CSSProperties = {
+  padding: 0,
+  border: "1px solid #eee",
+  borderRadius: 8,
+  background: "#fff",
+  cursor: "zoom-in",
+  overflow: "hidden",
+  textAlign: "left",
+};
+const thumb: CSSProperties = { width: "100%", aspectRatio: "1 / 1", objectFit: "cover", display: "block" };
+const caption: CSSProperties = { padding: 6, fontSize: 11, color: "#555" };
@@ -1,37 +1,36 @@
 import React from "react";
+import { formatAge, getDataSource, subscribeDataSource } from "./dataCache";
+import type { Meta } from "./meta";
 
-export default function LastUpdated() {
-  const [text, setText] = React.useState("");
+export default function LastUpdated({ meta }: { meta: Meta }) {
+  const source = React.useSyncExternalStore(subscribeDataSource, getDataSource);
+  const text = meta.last_updated ? `Last updated: ${new Date(meta.last_updated).toLocaleString()}` : "";
 
-  React.useEffect(() => {
-    fetch("/data/meta.json", { cache: "no-store" })
-      .then(r => (r.ok ? r.json() : null))
-      .then(j => {
-        const iso = j?.last_updated;
-        if (iso) {
-          const d = new Date(iso);
-          setText(`Last updated: ${d.toLocaleString()}`);
-        }
-      })
-      .catch(() => {});
-  }, []);
-
-  if (!text) return null;
+  const cached = source.mode === "cached" && source.cachedAt;
+  if (!text && !cached) return null;
   return (
     <div
+      className="no-print"
+      title={cached ? `Served from the offline copy: ${source.cachedFiles.join(", ")}` : undefined}
       style={{
         position: "fixed",
         top: 8,
         right: 8,
         padding: "4px 8px",
         fontSize: 12,
-        background: "white",
+        background: cached ? "#fffbeb" : "white",
         borderRadius: 6,
         boxShadow: "0 1px 4px rgba(0,0,0,0.12)",
-        opacity: 0.8,
+        opacity: cached ? 1 : 0.8,
         zIndex: 50,
       }}
     >
+      {cached ? (
+        <strong style={{ color: "#8a6d00" }}>Offline — cached data from {formatAge(cached)} ago</strong>
+      ) : (
+        source.mode === "live" && <span style={{ color: "#2a7a2a" }}>● Live</span>
+      )}
+      {text && " · "}
       {text}
     </div>
   );
@@ -0,0 +1,87 @@
+import { useEffect, type CSSProperties } from "react";
+import { reportImageFailure } from "./imageChecks";
+
+export type LightboxItem = { src: string; caption: string };
+
+// Full-size preview over the page; ← → step through `items`, Esc closes.
+export default function Lightbox({
+  items,
+  index,
+  onIndex,
+  onClose,
+}: {
+  items: LightboxItem[];
+  index: number;
+  onIndex: (index: number) => void;
+  onClose: () => void;
+}) {
+  const item = items[index];
+  const step = (delta: number) => onIndex((index + delta + items.length) % items.length);
+
+  useEffect(() => {
+    function onKey(e: KeyboardEvent) {
+      if (e.key === "Escape") onClose();
+      else if (e.key === "ArrowLeft") onIndex((index - 1 + items.length) % items.length);
+      else if (e.key === "ArrowRight") onIndex((index + 1) % items.length);
+      else return;
+      e.preventDefault();
+    }
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [index, items.length, onIndex, onClose]);
+
+  if (!item) return null;
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: "fixed",
+        inset: 0,
+        background: "rgba(0,0,0,0.8)",
+        zIndex: 900,
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "center",
+        justifyContent: "center",
+        gap: 12,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: 12 }} onClick={(e) => e.stopPropagation()}>
+        <button onClick={() => step(-1)} disabled={items.length < 2} style={navBtn} aria-label="Previous image">
+          ‹
+        </button>
+        <img
+          key={item.src}
+          src={item.src}
+          alt={item.caption}
+          style={{ maxWidth: "80vw", maxHeight: "80vh", background: "#fff", borderRadius: 8 }}
+          onError={(e) => {
+            reportImageFailure(item.src);
+            (e.currentTarget as HTMLImageElement).src = "/img/fallback.svg";
+          }}
+        />
+        <button onClick={() => step(1)} disabled={items.length < 2} style={navBtn} aria-label="Next image">
+          ›
+        </button>
+      </div>
+      <div style={{ color: "#eee", fontSize: 13, textAlign: "center", maxWidth: "80vw" }} onClick={(e) => e.stopPropagation()}>
+        {item.caption}
+        <span style={{ color: "#999", marginLeft: 8 }}>
+          {index + 1} / {items.length}
+        </span>
+        <div style={{ fontSize: 11, color: "#aaa", wordBreak: "break-all" }}>{item.src}</div>
+      </div>
+    </div>
+  );
+}
+
+const navBtn: CSSProperties = {
+  width: 40,
+  height: 40,
+  borderRadius: 999,
+  border: "none",
+  background: "rgba(255,255,255,0.9)",
+  fontSize: 24,
+  lineHeight: 1,
+  cursor: "pointer",
+};
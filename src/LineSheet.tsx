@@ -0,0 +1,160 @@
+import { useMemo, useState, type CSSProperties } from "react";
+import { reportImageFailure } from "./imageChecks";
+import { CATEGORY_LABEL, TIER_LABEL } from "./labels";
+import {
+  buildLineSheet,
+  DEFAULT_COLUMNS,
+  LINE_SHEET_COLUMN_LABEL,
+  type LineSheetColumn,
+  type LineSheetEntry,
+} from "./lineSheetData";
+import type { BaseProduct } from "./loadBaseProducts";
+import type { Descriptions } from "./loadDescriptions";
+import type { Product } from "./loadProducts";
+import { primaryBtn, secondaryBtn } from "./styles";
+
+const MAX_SWATCHES = 10;
+
+// "Line sheet" view: a print-ready catalog for wholesale and market booths.
+// The options panel is hidden when printing; "Print / PDF" uses the browser's
+// print dialog. Swatch images load eagerly so they are ready to print.
+export default function LineSheet({
+  bases,
+  products,
+  descriptions,
+}: {
+  bases: BaseProduct[];
+  products: Product[];
+  descriptions: Descriptions;
+}) {
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [columns, setColumns] = useState<Set<LineSheetColumn>>(new Set(DEFAULT_COLUMNS));
+  const [title, setTitle] = useState("ArtsyFartsy — Line sheet");
+
+  const included = useMemo(() => bases.filter((b) => !excluded.has(b.code)), [bases, excluded]);
+  const sections = useMemo(() => buildLineSheet(included, products, descriptions), [included, products, descriptions]);
+  const categories = useMemo(() => Array.from(new Set(bases.map((b) => b.category))), [bases]);
+
+  function toggle<T>(set: Set<T>, value: T): Set<T> {
+    const next = new Set(set);
+    if (next.has(value)) next.delete(value);
+    else next.add(value);
+    return next;
+  }
+
+  return (
+    <div style={{ marginTop: 20, fontSize: 14 }}>
+      <div className="no-print" style={{ padding: 12, borderRadius: 12, border: "1px solid #e5e5e5", marginBottom: 16 }}>
+        <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+          <input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            aria-label="Sheet title"
+            style={{ padding: "6px 8px", borderRadius: 8, border: "1px solid #ddd", minWidth: 260 }}
+          />
+          <span style={{ color: "#666", fontSize: 12 }}>
+            {included.length} of {bases.length} bases
+          </span>
+          <button onClick={() => window.print()} disabled={included.length === 0} style={{ ...primaryBtn, marginLeft: "auto" }}>
+            Print / PDF
+          </button>
+        </div>
+
+        <div style={{ marginTop: 10, fontSize: 13 }}>
+          <strong>Columns:</strong>{" "}
+          {(Object.keys(LINE_SHEET_COLUMN_LABEL) as LineSheetColumn[]).map((c) => (
+            <label key={c} style={{ marginRight: 12, whiteSpace: "nowrap" }}>
+              <input type="checkbox" checked={columns.has(c)} onChange={() => setColumns(toggle(columns, c))} />{" "}
+              {LINE_SHEET_COLUMN_LABEL[c]}
+            </label>
+          ))}
+        </div>
+
+        <div style={{ marginTop: 10, fontSize: 13 }}>
+          <strong>Bases:</strong>{" "}
+          <button onClick={() => setExcluded(new Set())} style={smallBtn}>
+            all
+          </button>{" "}
+          <button onClick={() => setExcluded(new Set(bases.map((b) => b.code)))} style={smallBtn}>
+            none
+          </button>
+          {categories.map((cat) => (
+            <div key={cat} style={{ marginTop: 4 }}>
+              <span style={{ color: "#666", marginRight: 8 }}>{CATEGORY_LABEL[cat] ?? cat}:</span>
+              {bases
+                .filter((b) => b.category === cat)
+                .map((b) => (
+                  <label key={b.code} style={{ marginRight: 12, whiteSpace: "nowrap" }}>
+                    <input type="checkbox" checked={!excluded.has(b.code)} onChange={() => setExcluded(toggle(excluded, b.code))} />{" "}
+                    {b.code}
+                  </label>
+                ))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="line-sheet">
+        <h1 style={{ margin: "0 0 4px", fontSize: 24 }}>{title}</h1>
+        <p style={{ margin: "0 0 16px", color: "#666", fontSize: 12 }}>{new Date().toLocaleDateString()}</p>
+        {sections.map((s) => (
+          <section key={s.category} style={{ marginBottom: 20 }}>
+            <h2 style={{ fontSize: 18, margin: "0 0 8px", paddingBottom: 4, borderBottom: "2px solid #111" }}>{s.label}</h2>
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(2, minmax(0, 1fr))", gap: 12 }}>
+              {s.entries.map((e) => (
+                <Entry key={e.base.code} entry={e} columns={columns} />
+              ))}
+            </div>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function Entry({ entry: e, columns }: { entry: LineSheetEntry; columns: Set<LineSheetColumn> }) {
+  const b = e.base;
+  const extra = e.swatches.length - MAX_SWATCHES;
+  return (
+    <div className="sheet-entry" style={{ border: "1px solid #ddd", borderRadius: 8, padding: 10 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 8, alignItems: "baseline" }}>
+        <strong style={{ fontSize: 15 }}>{b.label}</strong>
+        {columns.has("price") && <strong>${b.retail_price.toFixed(2)}</strong>}
+      </div>
+      <div style={{ color: "#666", fontSize: 12 }}>
+        {[
+          columns.has("code") && b.code,
+          columns.has("tier") && (TIER_LABEL[b.tier] ?? b.tier),
+          columns.has("sizes") && e.sizeRange && `Sizes ${e.sizeRange}`,
+          columns.has("fabric") && e.fabric,
+        ]
+          .filter(Boolean)
+          .join(" · ")}
+      </div>
+      {columns.has("fit") && b.fit_notes && <p style={para}>{b.fit_notes}</p>}
+      {columns.has("description") && e.blurb && <p style={para}>{e.blurb}</p>}
+      {columns.has("images") && e.swatches.length > 0 && (
+        <div style={{ display: "flex", gap: 4, flexWrap: "wrap", marginTop: 6 }}>
+          {e.swatches.slice(0, MAX_SWATCHES).map((s) => (
+            <figure key={s.color} style={{ margin: 0, width: 52, textAlign: "center" }}>
+              <img
+                src={s.image || "/img/fallback.svg"}
+                alt={s.color}
+                style={{ width: 52, height: 52, objectFit: "cover", borderRadius: 4, display: "block" }}
+                onError={(ev) => {
+                  if (s.image) reportImageFailure(s.image);
+                  (ev.currentTarget as HTMLImageElement).src = "/img/fallback.svg";
+                }}
+              />
+              <figcaption style={{ fontSize: 9, color: "#555", lineHeight: 1.2, marginTop: 2 }}>{s.color}</figcaption>
+            </figure>
+          ))}
+          {extra > 0 && <span style={{ alignSelf: "center", fontSize: 11, color: "#666" }}>+{extra} more</span>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const para: CSSProperties = { margin: "6px 0 0", fontSize: 12, lineHeight: 1.4 };
+const smallBtn: CSSProperties = { ...secondaryBtn, padding: "2px 8px", fontSize: 12 };
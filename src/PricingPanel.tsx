@@ -0,0 +1,162 @@
+import { Fragment, useMemo, useState, type CSSProperties } from "react";
+import { CATEGORY_LABEL, TIER_LABEL } from "./labels";
+import type { BaseProduct } from "./loadBaseProducts";
+import type { Product } from "./loadProducts";
+import { formatMargin, priceForSize, quoteBase, type Pricing } from "./pricing";
+import { sortSizes } from "./sizes";
+
+// Pricing view: suggested vs current retail per base, margins and tier-band flags.
+export default function PricingPanel({
+  bases,
+  products,
+  pricing,
+  useSuggested,
+  onUseSuggested,
+  onSelectBase,
+}: {
+  bases: BaseProduct[];
+  products: Product[];
+  pricing: Pricing;
+  useSuggested: boolean;
+  onUseSuggested: (on: boolean) => void;
+  onSelectBase: (code: string) => void;
+}) {
+  const [onlyFlagged, setOnlyFlagged] = useState(false);
+  const [open, setOpen] = useState<string | null>(null);
+
+  const quotes = useMemo(() => bases.map((b) => ({ base: b, quote: quoteBase(b, pricing) })), [bases, pricing]);
+  const flagged = (q: (typeof quotes)[number]["quote"]) => q.band !== null || q.problems.length > 0;
+  const shown = onlyFlagged ? quotes.filter((q) => flagged(q.quote)) : quotes;
+
+  const sizesByBase = useMemo(() => {
+    const out = new Map<string, string[]>();
+    for (const p of products) {
+      const list = out.get(p.base_code);
+      if (list) list.push(p.size);
+      else out.set(p.base_code, [p.size]);
+    }
+    return out;
+  }, [products]);
+
+  return (
+    <div style={{ marginTop: 20 }}>
+      <h2 style={{ marginBottom: 8 }}>Pricing</h2>
+      <p style={{ marginTop: 0, color: "#666", fontSize: 13 }}>
+        Suggested retail = blank cost × tier markup, rounded up to the next $0.50. Sizes{" "}
+        {Array.from(pricing.upcharges, ([s, u]) => `${s} +$${u.toFixed(2)}`).join(", ") || "(none)"} add an
+        upcharge. Sources: blank_costs.csv, tier_pricing.csv, size_upcharges.csv.
+      </p>
+      <div style={{ display: "flex", gap: 16, alignItems: "center", flexWrap: "wrap", marginBottom: 8, fontSize: 13 }}>
+        <label>
+          <input type="checkbox" checked={useSuggested} onChange={(e) => onUseSuggested(e.target.checked)} /> Use
+          suggested prices in the copy block and exports
+        </label>
+        <label>
+          <input type="checkbox" checked={onlyFlagged} onChange={(e) => setOnlyFlagged(e.target.checked)} /> Only
+          flagged ({quotes.filter((q) => flagged(q.quote)).length})
+        </label>
+      </div>
+
+      <div style={{ overflowX: "auto" }}>
+        <table style={{ borderCollapse: "collapse", fontSize: 13, width: "100%" }}>
+          <thead>
+            <tr>
+              {["Base", "Category", "Tier", "Blank cost", "Markup", "Suggested", "Current", "Margin now", "Margin suggested", "Band", ""].map(
+                (h) => (
+                  <th key={h} style={{ ...cell, textAlign: h === "Base" || h === "Category" || h === "Tier" ? "left" : "right" }}>
+                    {h}
+                  </th>
+                )
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map(({ base: b, quote: q }) => {
+              const rule = q.rule;
+              const sizes = sortSizes(sizesByBase.get(b.code) ?? []);
+              return (
+                <Fragment key={b.code}>
+                  <tr style={{ background: flagged(q) ? "#fffbeb" : undefined }}>
+                    <td style={cell}>
+                      <a
+                        href="#"
+                        onClick={(e) => {
+                          e.preventDefault();
+                          onSelectBase(b.code);
+                        }}
+                      >
+                        {b.code}
+                      </a>
+                    </td>
+                    <td style={cell}>{CATEGORY_LABEL[b.category] ?? b.category}</td>
+                    <td style={cell}>{TIER_LABEL[b.tier] ?? b.tier}</td>
+                    <td style={num}>{money(q.cost)}</td>
+                    <td style={num}>{rule ? `×${rule.markup}` : "—"}</td>
+                    <td style={{ ...num, fontWeight: 600 }}>{money(q.suggested)}</td>
+                    <td style={num}>
+                      {money(q.current)}
+                      {q.suggested !== null && q.suggested !== q.current && (
+                        <span style={{ color: q.current < q.suggested ? "#b00" : "#2a7a2a", fontSize: 11, marginLeft: 4 }}>
+                          {q.current < q.suggested ? "▼" : "▲"}
+                        </span>
+                      )}
+                    </td>
+                    <td style={num}>{formatMargin(q.currentMargin)}</td>
+                    <td style={num}>{formatMargin(q.suggestedMargin)}</td>
+                    <td style={{ ...num, color: q.band ? "#b00" : "#666" }}>
+                      {rule && (rule.min_price != null || rule.max_price != null)
+                        ? `${money(rule.min_price)}–${money(rule.max_price)}`
+                        : "—"}
+                      {q.band && <div style={{ fontSize: 11 }}>current is {q.band} band</div>}
+                      {q.problems.map((p) => (
+                        <div key={p} style={{ fontSize: 11 }}>
+                          {p}
+                        </div>
+                      ))}
+                    </td>
+                    <td style={num}>
+                      {sizes.length > 0 && (
+                        <button
+                          onClick={() => setOpen(open === b.code ? null : b.code)}
+                          style={{ border: "none", background: "none", cursor: "pointer", color: "#555", fontSize: 12 }}
+                        >
+                          {open === b.code ? "hide sizes" : "by size"}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                  {open === b.code && (
+                    <tr>
+                      <td style={cell} />
+                      <td style={{ ...cell, fontSize: 12, color: "#555" }} colSpan={10}>
+                        {sizes
+                          .map((s) => {
+                            const now = money(priceForSize(q.current, s, pricing));
+                            const sug = q.suggested === null ? "" : ` / ${money(priceForSize(q.suggested, s, pricing))}`;
+                            return `${s}: ${now}${sug}`;
+                          })
+                          .join(" · ")}
+                        <span style={{ color: "#999" }}> (current / suggested)</span>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function money(n: number | null): string {
+  return n === null ? "—" : `$${n.toFixed(2)}`;
+}
+
+const cell: CSSProperties = {
+  padding: "6px 8px",
+  borderBottom: "1px solid #eee",
+  verticalAlign: "top",
+};
+const num: CSSProperties = { ...cell, textAlign: "right", whiteSpace: "nowrap" };
@@ -0,0 +1,154 @@
+import { useState, type CSSProperties } from "react";
+import { ALIAS_RULE_LABEL, type AliasRule, type SweepReport } from "./sweepReport";
+
+// "Sweep report" view: how last night's sweep matched Shopify products to bases.
+export default function SweepReportView({
+  report,
+  activeCodes,
+  onSelectBase,
+}: {
+  report: SweepReport | null;
+  activeCodes: Set<string>;
+  onSelectBase: (code: string) => void;
+}) {
+  const [showMatched, setShowMatched] = useState(false);
+
+  if (!report) {
+    return (
+      <p style={{ marginTop: 20, color: "#777" }}>
+        No sweep_report.json yet — it is written by the next nightly sweep.
+      </p>
+    );
+  }
+
+  const byRule = new Map<AliasRule, number>();
+  for (const m of report.matched) byRule.set(m.rule, (byRule.get(m.rule) ?? 0) + 1);
+
+  const baseLink = (code: string) =>
+    activeCodes.has(code) ? (
+      <a
+        href="#"
+        onClick={(e) => {
+          e.preventDefault();
+          onSelectBase(code);
+        }}
+      >
+        {code}
+      </a>
+    ) : (
+      <span>{code}</span>
+    );
+
+  return (
+    <div style={{ marginTop: 20, fontSize: 14 }}>
+      <h2 style={{ marginBottom: 8 }}>Sweep report</h2>
+      <p style={{ marginTop: 0, color: "#666", fontSize: 13 }}>
+        {new Date(report.generated_at).toLocaleString()}: {report.products_read} Shopify products read,{" "}
+        {report.matched.length} matched to a base ({report.variants_written} variants), {report.skipped.length} skipped,{" "}
+        {report.ambiguous.length} ambiguous. Matched by{" "}
+        {Array.from(byRule, ([rule, n]) => `${ALIAS_RULE_LABEL[rule]} ×${n}`).join(", ") || "—"}.
+      </p>
+
+      {report.alias_collisions.length > 0 && (
+        <section style={{ marginTop: 16 }}>
+          <h3 style={h3}>Alias collisions ({report.alias_collisions.length})</h3>
+          <ul style={ul}>
+            {report.alias_collisions.map((c) => (
+              <li key={c.alias}>
+                <code>{c.alias}</code> claimed by{" "}
+                {c.base_codes.map((code, n) => (
+                  <span key={code}>
+                    {n > 0 && ", "}
+                    {baseLink(code)}
+                  </span>
+                ))}{" "}
+                — {c.resolution}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {report.ambiguous.length > 0 && (
+        <section style={{ marginTop: 16 }}>
+          <h3 style={h3}>Tagged with more than one base ({report.ambiguous.length})</h3>
+          <ul style={ul}>
+            {report.ambiguous.map((a) => (
+              <li key={a.product_id}>
+                {a.title} — used {baseLink(a.chosen.base_code)} (tag <code>{a.chosen.tag}</code>,{" "}
+                {ALIAS_RULE_LABEL[a.chosen.rule]}); also{" "}
+                {a.candidates
+                  .filter((c) => c.base_code !== a.chosen.base_code)
+                  .map((c, n) => (
+                    <span key={c.tag}>
+                      {n > 0 && ", "}
+                      {baseLink(c.base_code)} (<code>{c.tag}</code>)
+                    </span>
+                  ))}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {report.skipped.length > 0 && (
+        <section style={{ marginTop: 16 }}>
+          <h3 style={h3}>Skipped — no tag names a base ({report.skipped.length})</h3>
+          <ul style={ul}>
+            {report.skipped.map((s) => (
+              <li key={s.product_id}>
+                {s.title} <span style={{ color: "#888" }}>({s.handle})</span> — tags:{" "}
+                <code>{s.tags || "(none)"}</code>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <section style={{ marginTop: 16 }}>
+        <h3 style={h3}>
+          Matched ({report.matched.length}){" "}
+          <button
+            onClick={() => setShowMatched((on) => !on)}
+            style={{ border: "none", background: "none", cursor: "pointer", color: "#555", fontSize: 12 }}
+          >
+            {showMatched ? "hide" : "show"}
+          </button>
+        </h3>
+        {showMatched && (
+          <table style={{ borderCollapse: "collapse", fontSize: 13 }}>
+            <thead>
+              <tr>
+                {["Product", "Base", "Tag", "Rule"].map((h) => (
+                  <th key={h} style={{ ...cell, textAlign: "left" }}>
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {report.matched.map((m) => (
+                <tr key={m.product_id}>
+                  <td style={cell}>{m.title}</td>
+                  <td style={cell}>{baseLink(m.base_code)}</td>
+                  <td style={cell}>
+                    <code>{m.tag}</code>
+                  </td>
+                  <td style={cell}>{ALIAS_RULE_LABEL[m.rule]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+}
+
+const h3: CSSProperties = { margin: "0 0 6px", fontSize: 16 };
+const ul: CSSProperties = { margin: 0, paddingLeft: 18 };
+const cell: CSSProperties = {
+  padding: "4px 8px",
+  borderBottom: "1px solid #eee",
+  verticalAlign: "top",
+};
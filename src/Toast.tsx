@@ -0,0 +1,33 @@
+export type ToastMessage = {
+  id: number; // a new id restarts the animation for repeated messages
+  text: string;
+  kind: "ok" | "error";
+};
+
+// Bottom-centre confirmation for copy shortcuts and palette actions.
+export default function Toast({ toast }: { toast: ToastMessage | null }) {
+  if (!toast) return null;
+  return (
+    <div
+      key={toast.id}
+      className="no-print"
+      role="status"
+      aria-live="polite"
+      style={{
+        position: "fixed",
+        left: "50%",
+        bottom: 24,
+        transform: "translateX(-50%)",
+        padding: "8px 14px",
+        borderRadius: 10,
+        fontSize: 13,
+        background: toast.kind === "error" ? "#900" : "#111",
+        color: "#fff",
+        boxShadow: "0 4px 16px rgba(0,0,0,0.2)",
+        zIndex: 1000,
+      }}
+    >
+      {toast.text}
+    </div>
+  );
+}
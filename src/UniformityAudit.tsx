@@ -0,0 +1,151 @@
+import { useState, type CSSProperties } from "react";
+import { toCSV } from "./dataSchema";
+import { dateStamp, downloadText } from "./download";
+import { secondaryBtn } from "./styles";
+import { AUDIT_KIND_LABEL, findingsToRows, type AuditFinding, type AuditKind, type Standards } from "./uniformity";
+
+// "Uniformity" view: every design's offering checked against its base's standard
+// (base_standards.json), exportable as a CSV worklist.
+export default function UniformityAudit({
+  standards,
+  findings,
+  activeCodes,
+  onSelectBase,
+}: {
+  standards: Standards;
+  findings: AuditFinding[];
+  activeCodes: Set<string>;
+  onSelectBase: (code: string) => void;
+}) {
+  const [base, setBase] = useState("");
+  const [kind, setKind] = useState<AuditKind | "">("");
+
+  const shown = findings.filter((f) => (!base || f.base_code === base) && (!kind || f.kind === kind));
+  const codes = Object.keys(standards);
+
+  if (codes.length === 0) {
+    return (
+      <p style={{ marginTop: 20, color: "#777" }}>
+        No base_standards.json yet — add a standard offering for a base to audit its designs.
+      </p>
+    );
+  }
+
+  const countBy = (code: string, k: AuditKind) => findings.filter((f) => f.base_code === code && f.kind === k).length;
+  const kinds = Object.keys(AUDIT_KIND_LABEL) as AuditKind[];
+
+  return (
+    <div style={{ marginTop: 20, fontSize: 14 }}>
+      <h2 style={{ marginBottom: 8 }}>Uniformity audit</h2>
+      <p style={{ marginTop: 0, color: "#666", fontSize: 13 }}>
+        {findings.length} issue{findings.length === 1 ? "" : "s"} across {codes.length} base
+        {codes.length === 1 ? "" : "s"} with a standard offering.
+      </p>
+
+      <table style={{ borderCollapse: "collapse", fontSize: 13, marginBottom: 16 }}>
+        <thead>
+          <tr>
+            <th style={{ ...cell, textAlign: "left" }}>Base</th>
+            {kinds.map((k) => (
+              <th key={k} style={{ ...cell, textAlign: "right" }}>
+                {AUDIT_KIND_LABEL[k]}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {codes.map((code) => (
+            <tr key={code}>
+              <td style={cell}>
+                {activeCodes.has(code) ? (
+                  <a
+                    href="#"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      onSelectBase(code);
+                    }}
+                  >
+                    {code}
+                  </a>
+                ) : (
+                  code
+                )}
+              </td>
+              {kinds.map((k) => {
+                const n = countBy(code, k);
+                return (
+                  <td key={k} style={{ ...cell, textAlign: "right", color: n ? "#b00" : "#aaa" }}>
+                    {n}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div style={{ display: "flex", gap: 8, alignItems: "center", marginBottom: 8 }}>
+        <select value={base} onChange={(e) => setBase(e.target.value)} style={select}>
+          <option value="">All bases</option>
+          {codes.map((code) => (
+            <option key={code} value={code}>
+              {code}
+            </option>
+          ))}
+        </select>
+        <select value={kind} onChange={(e) => setKind(e.target.value as AuditKind | "")} style={select}>
+          <option value="">All issues</option>
+          {kinds.map((k) => (
+            <option key={k} value={k}>
+              {AUDIT_KIND_LABEL[k]}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => downloadText(toCSV(findingsToRows(shown)) + "\n", `uniformity_worklist_${dateStamp()}.csv`, "text/csv")}
+          disabled={shown.length === 0}
+          style={secondaryBtn}
+        >
+          Export worklist ({shown.length})
+        </button>
+      </div>
+
+      {shown.length === 0 ? (
+        <p style={{ color: "#777" }}>Nothing to fix — every design matches its standard.</p>
+      ) : (
+        <table style={{ borderCollapse: "collapse", fontSize: 13 }}>
+          <thead>
+            <tr>
+              {["Base", "Product", "Edition", "Issue", "Detail"].map((h) => (
+                <th key={h} style={{ ...cell, textAlign: "left" }}>
+                  {h}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((f, i) => (
+              <tr key={i}>
+                <td style={cell}>{f.base_code}</td>
+                <td style={cell}>{f.product}</td>
+                <td style={cell}>{f.edition || "—"}</td>
+                <td style={cell}>{AUDIT_KIND_LABEL[f.kind]}</td>
+                <td style={cell} title={f.skus.length ? f.skus.join("\n") : undefined}>
+                  {f.detail}
+                  {f.skus.length > 0 && <span style={{ color: "#888" }}> ({f.skus.length} SKUs)</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+const select: CSSProperties = { padding: "6px 8px", borderRadius: 8, border: "1px solid #ddd" };
+const cell: CSSProperties = {
+  padding: "4px 8px",
+  borderBottom: "1px solid #eee",
+  verticalAlign: "top",
+};
@@ -0,0 +1,154 @@
+import { useMemo, useState, type CSSProperties } from "react";
+import { copyToClipboard } from "./clipboard";
+import { reportImageFailure } from "./imageChecks";
+import type { Product } from "./loadProducts";
+import { sortSizes } from "./sizes";
+
+type Cell = { enabled: Product[]; disabled: Product[] };
+
+// Color × size matrix for one base: a row per color, a column per size,
+// gaps highlighted and each cell copying its SKU(s) on click.
+export default function VariantMatrix({ products }: { products: Product[] }) {
+  const [copied, setCopied] = useState<{ text: string; ok: boolean } | null>(null);
+
+  const { colors, sizes, cells } = useMemo(() => {
+    const cells = new Map<string, Cell>();
+    const colors: { color: string; image: string }[] = [];
+    for (const p of products) {
+      if (!colors.some((c) => c.color === p.color)) colors.push({ color: p.color, image: "" });
+      const row = colors.find((c) => c.color === p.color)!;
+      if (!row.image && p.enabled && p.image_src) row.image = p.image_src;
+
+      const key = `${p.color}|${p.size}`;
+      const cell = cells.get(key) ?? { enabled: [], disabled: [] };
+      (p.enabled ? cell.enabled : cell.disabled).push(p);
+      cells.set(key, cell);
+    }
+    return { colors, sizes: sortSizes(products.map((p) => p.size)), cells };
+  }, [products]);
+
+  function copyCell(list: Product[]) {
+    const skus = list.map((p) => p.sku);
+    const what = skus.length === 1 ? skus[0] : `${skus.length} SKUs`;
+    copyToClipboard(skus.join("\n")).then(
+      () => setCopied({ text: `Copied ${what}`, ok: true }),
+      (e) => setCopied({ text: `Couldn't copy ${what}: ${e instanceof Error ? e.message : e}`, ok: false })
+    );
+  }
+
+  if (products.length === 0) return <p style={{ color: "#777" }}>No products match your filter.</p>;
+
+  return (
+    <div>
+      <div style={{ fontSize: 12, color: "#666", marginBottom: 6, display: "flex", gap: 12, flexWrap: "wrap" }}>
+        <span>
+          <Swatch bg="#fff" /> offered
+        </span>
+        <span>
+          <Swatch bg="#f1f1f1" /> disabled
+        </span>
+        <span>
+          <Swatch bg="#fff1f1" /> missing size/color
+        </span>
+        {copied && <span style={{ color: copied.ok ? "#2a7a2a" : "#b00" }}>{copied.text}</span>}
+      </div>
+      <div style={{ overflowX: "auto" }}>
+        <table style={{ borderCollapse: "collapse", fontSize: 12 }}>
+          <thead>
+            <tr>
+              <th style={{ ...th, textAlign: "left" }}>Color</th>
+              {sizes.map((s) => (
+                <th key={s} style={th}>
+                  {s}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {colors.map(({ color, image }) => (
+              <tr key={color}>
+                <td style={{ ...td, textAlign: "left", whiteSpace: "nowrap" }}>
+                  <img
+                    src={image || "/img/fallback.svg"}
+                    alt={color}
+                    loading="lazy"
+                    width={36}
+                    height={36}
+                    style={{ verticalAlign: "middle", borderRadius: 6, objectFit: "cover", marginRight: 8 }}
+                    onError={(e) => {
+                      if (image) reportImageFailure(image);
+                      (e.currentTarget as HTMLImageElement).src = "/img/fallback.svg";
+                    }}
+                  />
+                  {color || "(no color)"}
+                </td>
+                {sizes.map((size) => {
+                  const cell = cells.get(`${color}|${size}`);
+                  if (!cell) {
+                    return (
+                      <td key={size} style={{ ...td, background: "#fff1f1", color: "#b00" }} title="Not offered">
+                        —
+                      </td>
+                    );
+                  }
+                  const live = cell.enabled.length > 0;
+                  const list = live ? cell.enabled : cell.disabled;
+                  return (
+                    <td key={size} style={{ ...td, background: live ? "#fff" : "#f1f1f1" }}>
+                      <button
+                        onClick={() => copyCell(list)}
+                        title={list.map((p) => p.sku).join("\n")}
+                        style={{
+                          padding: "2px 6px",
+                          border: "none",
+                          background: "none",
+                          cursor: "pointer",
+                          fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+                          fontSize: 11,
+                          color: live ? "#111" : "#999",
+                          textDecoration: live ? "none" : "line-through",
+                        }}
+                      >
+                        {list.length === 1 ? list[0].sku : `${list.length} SKUs`}
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function Swatch({ bg }: { bg: string }) {
+  return (
+    <span
+      style={{
+        display: "inline-block",
+        width: 10,
+        height: 10,
+        border: "1px solid #ddd",
+        background: bg,
+        verticalAlign: "middle",
+      }}
+    />
+  );
+}
+
+const th: CSSProperties = {
+  padding: "6px 8px",
+  borderBottom: "1px solid #ddd",
+  textAlign: "center",
+  fontWeight: 600,
+  position: "sticky",
+  top: 0,
+  background: "#fff",
+};
+const td: CSSProperties = {
+  padding: 4,
+  borderBottom: "1px solid #eee",
+  textAlign: "center",
+};
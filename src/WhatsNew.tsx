@@ -0,0 +1,133 @@
+import { useState, type ReactNode } from "react";
+import { changeCount, lineDiff, type BaseChanges, type SnapshotPair } from "./snapshotDiff";
+import { secondaryBtn } from "./styles";
+
+const SKU_PREVIEW = 8;
+
+// "What's new" view: per-base changes between the previous and current snapshot.
+export default function WhatsNew({
+  pair,
+  changes,
+  activeCodes,
+  onSelectBase,
+  onAcknowledge,
+}: {
+  pair: SnapshotPair | null;
+  changes: BaseChanges[];
+  activeCodes: Set<string>;
+  onSelectBase: (code: string) => void;
+  onAcknowledge: () => void;
+}) {
+  if (!pair?.previous) {
+    return (
+      <p style={{ marginTop: 20, color: "#777" }}>
+        Nothing to compare yet — changes show up here after the next sweep updates the catalog.
+        {pair && ` (Current snapshot first seen ${new Date(pair.current.seenAt).toLocaleString()}.)`}
+      </p>
+    );
+  }
+
+  return (
+    <div style={{ marginTop: 20 }}>
+      <div style={{ display: "flex", alignItems: "baseline", gap: 12, flexWrap: "wrap" }}>
+        <h2 style={{ marginBottom: 8 }}>What's new</h2>
+        <button onClick={onAcknowledge} style={{ ...secondaryBtn, padding: "4px 10px", fontSize: 13 }}>
+          Mark all as seen
+        </button>
+      </div>
+      <p style={{ marginTop: 0, color: "#666", fontSize: 13 }}>
+        Compared with the catalog this browser saw on {new Date(pair.previous.seenAt).toLocaleString()}.
+      </p>
+      {changes.length === 0 && <p style={{ color: "#2a7a2a" }}>No variant or description changes.</p>}
+
+      {changes.map((c) => (
+        <section key={c.code} style={{ marginTop: 14, fontSize: 14 }}>
+          <h3 style={{ margin: "0 0 4px", fontSize: 16 }}>
+            {activeCodes.has(c.code) ? (
+              <a
+                href="#"
+                onClick={(e) => {
+                  e.preventDefault();
+                  onSelectBase(c.code);
+                }}
+              >
+                {c.code}
+              </a>
+            ) : (
+              <span title="Not an active base">{c.code}</span>
+            )}{" "}
+            <span style={{ color: "#888", fontWeight: 400 }}>({changeCount(c)})</span>
+          </h3>
+          <ul style={{ margin: 0, paddingLeft: 18 }}>
+            {c.added.length > 0 && <SkuLine label="Added" color="#2a7a2a" skus={c.added} />}
+            {c.removed.length > 0 && <SkuLine label="Removed" color="#b00" skus={c.removed} />}
+            {c.disabled.length > 0 && <SkuLine label="Disabled" color="#8a6d00" skus={c.disabled} />}
+            {c.images.length > 0 && (
+              <Expandable summary={`Image changed on ${c.images.length} variant${c.images.length === 1 ? "" : "s"}`}>
+                {c.images.map((i) => (
+                  <div key={i.sku} style={{ display: "flex", gap: 8, alignItems: "center", margin: "4px 0" }}>
+                    <code style={{ minWidth: 160 }}>{i.sku}</code>
+                    <Thumb src={i.from} />→<Thumb src={i.to} />
+                  </div>
+                ))}
+              </Expandable>
+            )}
+            {c.description && (
+              <Expandable summary="Description edited">
+                <pre style={{ whiteSpace: "pre-wrap", fontSize: 12, margin: "4px 0" }}>
+                  {lineDiff(c.description.before, c.description.after).map((d, n) => (
+                    <div key={n} style={{ color: d.op === "+" ? "#2a7a2a" : "#b00" }}>
+                      {d.op} {d.line}
+                    </div>
+                  ))}
+                </pre>
+              </Expandable>
+            )}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+}
+
+function SkuLine({ label, color, skus }: { label: string; color: string; skus: string[] }) {
+  const shown = skus.slice(0, SKU_PREVIEW).join(", ");
+  return (
+    <li>
+      <span style={{ color, fontWeight: 600 }}>{label}</span> {skus.length}: <code style={{ fontSize: 12 }}>{shown}</code>
+      {skus.length > SKU_PREVIEW && <span style={{ color: "#888" }}> and {skus.length - SKU_PREVIEW} more</span>}
+    </li>
+  );
+}
+
+function Expandable({ summary, children }: { summary: string; children: ReactNode }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <li>
+      {summary}{" "}
+      <button
+        onClick={() => setOpen((o) => !o)}
+        style={{ border: "none", background: "none", cursor: "pointer", color: "#555", fontSize: 12 }}
+      >
+        {open ? "hide" : "show"}
+      </button>
+      {open && children}
+    </li>
+  );
+}
+
+function Thumb({ src }: { src: string }) {
+  return src ? (
+    <img
+      src={src}
+      alt=""
+      loading="lazy"
+      style={{ width: 40, height: 40, objectFit: "cover", borderRadius: 6, border: "1px solid #eee" }}
+      onError={(e) => {
+        (e.currentTarget as HTMLImageElement).src = "/img/fallback.svg";
+      }}
+    />
+  ) : (
+    <span style={{ color: "#aaa" }}>(none)</span>
+  );
+}
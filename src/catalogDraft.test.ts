@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { toEditorTable } from "./catalogDraft";
+import { readTable, TIER_MAP_SCHEMA } from "./dataSchema";
+
+describe("toEditorTable", () => {
+  it("skips blank lines like readTable", () => {
+    const csv = "code,tier\nCC1717,premium\n\n,\nBC3501,standard\n";
+    const table = toEditorTable(csv, TIER_MAP_SCHEMA);
+    expect(table.columns).toEqual(["code", "tier"]);
+    expect(table.rows).toEqual([
+      { code: "CC1717", tier: "premium" },
+      { code: "BC3501", tier: "standard" },
+    ]);
+    expect(table.rows).toHaveLength(readTable(TIER_MAP_SCHEMA, csv).rows.length);
+  });
+});
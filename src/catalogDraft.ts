@@ -0,0 +1,183 @@
+// src/catalogDraft.ts
+// Drafts of base_products.csv, tier_map.csv and brand_tier_map.csv edited in
+// the browser. Cells stay raw text (as in the CSV) so bad input can be shown
+// and fixed; drafts live in localStorage until exported or discarded.
+import { fetchData } from "./dataCache";
+import {
+  BASE_PRODUCTS_SCHEMA,
+  BRAND_TIER_MAP_SCHEMA,
+  parseCSV,
+  TIER_MAP_SCHEMA,
+  toCSV,
+  type TableSchema,
+} from "./dataSchema";
+import { CATEGORY_LABEL, TIER_LABEL } from "./labels";
+import { resolveTier, type TierSource } from "./loadBaseProducts";
+
+export type EditorTableKey = "bases" | "tierMap" | "brandTierMap";
+
+export type EditorRow = Record<string, string>; // column -> raw cell text
+export type EditorTable = { columns: string[]; rows: EditorRow[] };
+export type CatalogDraft = Record<EditorTableKey, EditorTable>;
+
+export const EDITOR_TABLES: { key: EditorTableKey; schema: TableSchema; keyColumn: string }[] = [
+  { key: "bases", schema: BASE_PRODUCTS_SCHEMA, keyColumn: "code" },
+  { key: "tierMap", schema: TIER_MAP_SCHEMA, keyColumn: "code" },
+  { key: "brandTierMap", schema: BRAND_TIER_MAP_SCHEMA, keyColumn: "brand" },
+];
+
+export const TIER_SOURCE_LABEL: Record<TierSource, string> = {
+  explicit: "base_products.csv",
+  tier_map: "tier_map.csv",
+  brand_map: "brand_tier_map.csv",
+  none: "no tier",
+};
+
+/* ---------- load / persist ---------- */
+
+export async function loadEditorTables(): Promise<CatalogDraft> {
+  const tables = await Promise.all(
+    EDITOR_TABLES.map(async ({ schema }) => toEditorTable(await fetchData(`/data/${schema.file}`), schema))
+  );
+  return { bases: tables[0], tierMap: tables[1], brandTierMap: tables[2] };
+}
+
+// Keeps the file's column order; schema columns missing from the header go last.
+// Blank lines are skipped, as readTable does.
+export function toEditorTable(text: string, schema: TableSchema): EditorTable {
+  const [header = [], ...body] = parseCSV(text);
+  const columns = header.map((h) => h.trim());
+  for (const c of Object.keys(schema.columns)) if (!columns.includes(c)) columns.push(c);
+  const lines = body.filter((cells) => cells.some((c) => c.trim() !== ""));
+  const rows = lines.map((cells) => Object.fromEntries(columns.map((c, i) => [c, (cells[i] ?? "").trim()])));
+  return { columns, rows };
+}
+
+const DRAFT_KEY = "af-frontend.catalog-draft";
+
+export type SavedDraft = { draft: CatalogDraft; savedAt: string };
+
+export function loadDraft(): SavedDraft | null {
+  try {
+    const raw = localStorage.getItem(DRAFT_KEY);
+    if (!raw) return null;
+    const saved = JSON.parse(raw) as SavedDraft;
+    return EDITOR_TABLES.every(({ key }) => Array.isArray(saved.draft?.[key]?.rows)) ? saved : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveDraft(draft: CatalogDraft): SavedDraft {
+  const saved = { draft, savedAt: new Date().toISOString() };
+  try {
+    localStorage.setItem(DRAFT_KEY, JSON.stringify(saved));
+  } catch {
+    // storage full or disabled: the draft still lives for this session
+  }
+  return saved;
+}
+
+export function clearDraft() {
+  try {
+    localStorage.removeItem(DRAFT_KEY);
+  } catch {
+    // ignore
+  }
+}
+
+/* ---------- validation ---------- */
+
+export type EditorIssue = {
+  table: EditorTableKey;
+  row: number; // index into table.rows
+  column: string;
+  severity: "error" | "warning";
+  message: string;
+};
+
+export function validateDraft(d: CatalogDraft): EditorIssue[] {
+  const issues: EditorIssue[] = [];
+  const push = (table: EditorTableKey, row: number, column: string, severity: EditorIssue["severity"], message: string) =>
+    issues.push({ table, row, column, severity, message });
+
+  const knownTier = (t: string) => t in TIER_LABEL;
+  const baseCodes = new Set(d.bases.rows.map((r) => r.code));
+  const brands = new Set(d.bases.rows.map((r) => r.brand));
+
+  // ---- base_products.csv ----
+  const seenCodes = new Set<string>();
+  d.bases.rows.forEach((r, i) => {
+    for (const [col, spec] of Object.entries(BASE_PRODUCTS_SCHEMA.columns)) {
+      const v = r[col] ?? "";
+      if ("required" in spec && spec.required && !v) push("bases", i, col, "error", `${col} is required`);
+      else if (spec.type === "boolean" && v && v !== "true" && v !== "false")
+        push("bases", i, col, "error", `${col} must be true or false`);
+    }
+    if (r.code) {
+      if (seenCodes.has(r.code)) push("bases", i, "code", "error", `duplicate code ${r.code}`);
+      seenCodes.add(r.code);
+    }
+    if (r.category && !(r.category in CATEGORY_LABEL))
+      push("bases", i, "category", "error", `unknown category "${r.category}"`);
+    if (r.tier && !knownTier(r.tier)) push("bases", i, "tier", "error", `unknown tier "${r.tier}"`);
+    if (r.retail_price && !(Number(r.retail_price) > 0))
+      push("bases", i, "retail_price", "error", `retail_price "${r.retail_price}" is not a positive number`);
+  });
+
+  // ---- tier_map.csv / brand_tier_map.csv ----
+  const checkMap = (table: "tierMap" | "brandTierMap", keyCol: string, known: Set<string>, noun: string) => {
+    const seen = new Set<string>();
+    d[table].rows.forEach((r, i) => {
+      const k = r[keyCol] ?? "";
+      if (!k) push(table, i, keyCol, "error", `${keyCol} is required`);
+      else if (seen.has(k)) push(table, i, keyCol, "error", `duplicate ${keyCol} ${k}`);
+      else if (!known.has(k)) push(table, i, keyCol, "warning", `no base has ${noun} "${k}"`);
+      seen.add(k);
+      if (!r.tier) push(table, i, "tier", "error", "tier is required");
+      else if (!knownTier(r.tier)) push(table, i, "tier", "error", `unknown tier "${r.tier}"`);
+    });
+  };
+  checkMap("tierMap", "code", baseCodes, "code");
+  checkMap("brandTierMap", "brand", brands, "brand");
+
+  return issues;
+}
+
+/* ---------- preview ---------- */
+
+export function draftTierMaps(d: CatalogDraft) {
+  return {
+    tierMap: new Map(d.tierMap.rows.filter((r) => r.code && r.tier).map((r) => [r.code, r.tier])),
+    brandTierMap: new Map(d.brandTierMap.rows.filter((r) => r.brand && r.tier).map((r) => [r.brand, r.tier])),
+  };
+}
+
+export function previewTier(row: EditorRow, maps: ReturnType<typeof draftTierMaps>) {
+  return resolveTier(
+    { code: row.code ?? "", brand: row.brand ?? "", tier: row.tier ?? "" },
+    maps.tierMap,
+    maps.brandTierMap
+  );
+}
+
+/* ---------- export ---------- */
+
+export function tableToCSV(t: EditorTable): string {
+  return toCSV([t.columns, ...t.rows.map((r) => t.columns.map((c) => r[c] ?? ""))]) + "\n";
+}
+
+// Line-level diff (rows are compared as CSV lines, order ignored)
+export function diffTable(original: EditorTable, draft: EditorTable): { added: string[]; removed: string[] } {
+  const lines = (t: EditorTable) => tableToCSV(t).split("\n").slice(1).filter(Boolean);
+  const count = (list: string[]) => {
+    const m = new Map<string, number>();
+    for (const l of list) m.set(l, (m.get(l) ?? 0) + 1);
+    return m;
+  };
+  const before = count(lines(original));
+  const after = count(lines(draft));
+  const minus = (a: Map<string, number>, b: Map<string, number>) =>
+    Array.from(a).flatMap(([l, n]) => Array<string>(Math.max(0, n - (b.get(l) ?? 0))).fill(l));
+  return { added: minus(after, before), removed: minus(before, after) };
+}
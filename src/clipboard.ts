@@ -0,0 +1,43 @@
+// src/clipboard.ts
+
+// Writes text (and optionally rich HTML) to the clipboard. Rich copy uses
+// ClipboardItem where the browser has it; otherwise plain text via the async
+// API, and finally the legacy textarea + execCommand path. Rejects when every
+// path fails, or when there is no text, so callers can tell the user.
+export async function copyToClipboard(text: string, html?: string): Promise<void> {
+  if (!text) throw new Error("Nothing to copy");
+
+  if (html && typeof ClipboardItem !== "undefined" && navigator.clipboard?.write) {
+    try {
+      await navigator.clipboard.write([
+        new ClipboardItem({
+          "text/plain": new Blob([text], { type: "text/plain" }),
+          "text/html": new Blob([html], { type: "text/html" }),
+        }),
+      ]);
+      return;
+    } catch {
+      // fall through to plain text
+    }
+  }
+
+  if (navigator.clipboard?.writeText) {
+    try {
+      await navigator.clipboard.writeText(text);
+      return;
+    } catch {
+      // fall through to legacy copy
+    }
+  }
+  legacyCopy(text);
+}
+
+function legacyCopy(text: string) {
+  const ta = document.createElement("textarea");
+  ta.value = text;
+  document.body.appendChild(ta);
+  ta.select();
+  const ok = document.execCommand("copy");
+  document.body.removeChild(ta);
+  if (!ok) throw new Error("Clipboard access was denied");
+}
@@ -0,0 +1,89 @@
+// src/copyBlock.ts
+import { normalizeDescription } from "./descriptionPipeline";
+import { featureTags, type FeatureCode, type FeatureDef } from "./features";
+import { CATEGORY_LABEL, TIER_LABEL } from "./labels";
+import type { BaseProduct } from "./loadBaseProducts";
+import type { Descriptions } from "./loadDescriptions";
+import type { Product } from "./loadProducts";
+import type { Pricing } from "./pricing";
+import { sortSizes } from "./sizes";
+import { channelTemplate, renderTemplate, type TemplateContext, type Templates } from "./templates";
+
+export type CopyInput = {
+  base: BaseProduct;
+  features: Set<FeatureCode>; // toggled chips
+  featureDefs: FeatureDef[];
+  descriptions: Descriptions;
+  products: Product[]; // variants of this base
+  templates: Templates;
+  channel: string;
+  pricing?: Pricing; // when set, variant prices include size upcharges
+};
+
+/* ---------- copy-block builders ---------- */
+
+export function buildCopyBlock(input: CopyInput): string {
+  const tpl = channelTemplate(input.templates, input.channel, input.base.code);
+  return renderTemplate(tpl, buildTemplateContext(input)).trim();
+}
+
+export function buildDescription(
+  b: BaseProduct,
+  descriptions: Descriptions,
+  templates: Templates
+): string {
+  return normalizeDescription(descriptionSource(b, descriptions, templates));
+}
+
+// The text buildDescription starts from: the shop description by base code,
+// else the per-base override, else the generic fallback
+export function descriptionSource(b: BaseProduct, descriptions: Descriptions, templates: Templates): string {
+  const shop = descriptions[b.code];
+  if (shop?.trim()) return shop;
+
+  const ctx = baseFields(b);
+  const override = templates.base_overrides[b.code]?.description;
+  return renderTemplate(override || templates.fallback_description, ctx);
+}
+
+// Every placeholder a channel template can use.
+export function buildTemplateContext({
+  base: b,
+  features,
+  featureDefs,
+  descriptions,
+  products,
+  templates,
+}: CopyInput): TemplateContext {
+  return {
+    ...baseFields(b),
+    // base inherent features combined with user toggles
+    tags: featureTags(b, features, featureDefs).join(", "),
+    description: buildDescription(b, descriptions, templates),
+    colors: unique(products.map((p) => p.color)).join(", "),
+    sizes: sortSizes(products.map((p) => p.size).filter(Boolean)).join(", "),
+    variant_count: String(products.length),
+  };
+}
+
+function baseFields(b: BaseProduct): TemplateContext {
+  return {
+    code: b.code,
+    brand: b.brand,
+    model_name: b.model_name,
+    label: b.label,
+    category: b.category,
+    category_label: CATEGORY_LABEL[b.category] ?? b.category,
+    tier: b.tier,
+    tier_label: TIER_LABEL[b.tier] ?? b.tier,
+    organic: String(b.organic),
+    usa_made: String(b.usa_made),
+    active: String(b.active),
+    retail_price: b.retail_price.toFixed(2),
+    fit_notes: b.fit_notes,
+  };
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.filter(Boolean)));
+}
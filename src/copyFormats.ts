@@ -0,0 +1,133 @@
+// src/copyFormats.ts
+// Renders the plain-text copy block as Markdown, sanitized HTML or a
+// Shopify product-create payload.
+import { buildDescription, buildTemplateContext, type CopyInput } from "./copyBlock";
+import { priceForSize } from "./pricing";
+
+export type CopyFormat = "text" | "markdown" | "html" | "shopify_json";
+
+export const COPY_FORMAT_LABEL: Record<CopyFormat, string> = {
+  text: "Plain text",
+  markdown: "Markdown",
+  html: "HTML",
+  shopify_json: "Shopify JSON",
+};
+
+export type FormattedCopy = {
+  text: string;  // what goes on the clipboard as text/plain
+  html?: string; // rich version for editors that accept text/html
+};
+
+export function formatCopy(format: CopyFormat, block: string, input: CopyInput): FormattedCopy {
+  switch (format) {
+    case "markdown":
+      return { text: toMarkdown(block) };
+    case "html":
+      // rich targets paste the formatted HTML; plain-text targets get the readable block
+      return { text: block, html: toHtml(block) };
+    case "shopify_json":
+      return { text: JSON.stringify(toShopifyProduct(input), null, 2) };
+    default:
+      return { text: block };
+  }
+}
+
+/* ---------- block parsing ---------- */
+
+type Block = { type: "p"; lines: string[] } | { type: "ul"; items: string[] };
+
+// Splits text into paragraphs and "- " bullet lists (blank lines separate paragraphs)
+export function parseBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+
+  for (const raw of text.replace(/\r\n/g, "\n").split("\n")) {
+    const line = raw.trim();
+    if (!line) {
+      current = null;
+      continue;
+    }
+    const bullet = /^[-•*]\s+(.*)$/.exec(line);
+    if (bullet) {
+      // blank lines between bullets don't end the list
+      const last = blocks[blocks.length - 1];
+      if (!current && last?.type === "ul") current = last;
+      if (current?.type !== "ul") {
+        current = { type: "ul", items: [] };
+        blocks.push(current);
+      }
+      current.items.push(bullet[1]);
+    } else {
+      if (current?.type !== "p") {
+        current = { type: "p", lines: [] };
+        blocks.push(current);
+      }
+      current.lines.push(line);
+    }
+  }
+  return blocks;
+}
+
+/* ---------- renderers ---------- */
+
+export function toMarkdown(text: string): string {
+  return parseBlocks(text)
+    .map((b) =>
+      b.type === "ul"
+        ? b.items.map((i) => `- ${escapeMarkdown(i)}`).join("\n")
+        : b.lines.map(escapeMarkdown).join("  \n")
+    )
+    .join("\n\n");
+}
+
+export function toHtml(text: string): string {
+  return parseBlocks(text)
+    .map((b) =>
+      b.type === "ul"
+        ? `<ul>\n${b.items.map((i) => `  <li>${escapeHtml(i)}</li>`).join("\n")}\n</ul>`
+        : `<p>${b.lines.map(escapeHtml).join("<br>\n")}</p>`
+    )
+    .join("\n");
+}
+
+// Shape of POST /admin/api/<version>/products.json
+export function toShopifyProduct(input: CopyInput) {
+  const { base, products, descriptions, templates, pricing } = input;
+  const ctx = buildTemplateContext(input);
+  const hasColor = products.some((p) => p.color);
+  const hasSize = products.some((p) => p.size);
+  const options: { name: string }[] = [];
+  if (hasColor) options.push({ name: "Color" });
+  if (hasSize) options.push({ name: "Size" });
+
+  return {
+    product: {
+      title: base.label,
+      body_html: toHtml(buildDescription(base, descriptions, templates)),
+      vendor: base.brand,
+      product_type: ctx.category_label,
+      status: "draft",
+      tags: ctx.tags,
+      options,
+      variants: products.map((p) => ({
+        sku: p.sku,
+        ...(hasColor ? { option1: p.color } : {}),
+        ...(hasSize ? { [hasColor ? "option2" : "option1"]: p.size } : {}),
+        price: (pricing ? priceForSize(base.retail_price, p.size, pricing) : base.retail_price).toFixed(2),
+      })),
+    },
+  };
+}
+
+function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function escapeMarkdown(s: string): string {
+  return s.replace(/([\\*_`[\]#])/g, "\\$1");
+}
@@ -0,0 +1,119 @@
+// src/dataCache.ts
+// Every /data/ file goes through fetchData(): the network first, and on
+// success a copy in IndexedDB. When the network is down (markets, pop-ups…)
+// the last good copy is served instead and the app is marked as "cached".
+
+export type CachedFile = { path: string; text: string; fetchedAt: string };
+
+export type DataSource = {
+  mode: "live" | "cached" | "loading";
+  cachedAt: string | null; // oldest snapshot in use when mode is "cached"
+  cachedFiles: string[];
+};
+
+const DB_NAME = "af-frontend";
+const STORE = "data-files";
+
+/* ---------- IndexedDB ---------- */
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: "path" });
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    dbPromise.catch(() => (dbPromise = null)); // allow a retry later
+  }
+  return dbPromise;
+}
+
+async function readCached(path: string): Promise<CachedFile | undefined> {
+  try {
+    const db = await openDb();
+    return await new Promise((resolve, reject) => {
+      const req = db.transaction(STORE).objectStore(STORE).get(path);
+      req.onsuccess = () => resolve(req.result as CachedFile | undefined);
+      req.onerror = () => reject(req.error);
+    });
+  } catch {
+    return undefined; // no IndexedDB (private mode etc.)
+  }
+}
+
+async function writeCached(file: CachedFile): Promise<void> {
+  try {
+    const db = await openDb();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE, "readwrite");
+      tx.objectStore(STORE).put(file);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch {
+    // caching is best effort
+  }
+}
+
+/* ---------- live vs cached status ---------- */
+
+const used = new Map<string, string | null>(); // path -> fetchedAt of the cached copy, null when live
+const listeners = new Set<() => void>();
+let source: DataSource = { mode: "loading", cachedAt: null, cachedFiles: [] };
+
+function markUsed(path: string, cachedAt: string | null) {
+  used.set(path, cachedAt);
+  const cached = Array.from(used).filter((e): e is [string, string] => e[1] !== null);
+  source = {
+    mode: cached.length ? "cached" : "live",
+    cachedAt: cached.length ? cached.map(([, at]) => at).sort()[0] : null,
+    cachedFiles: cached.map(([p]) => p),
+  };
+  listeners.forEach((l) => l());
+}
+
+export function getDataSource(): DataSource {
+  return source;
+}
+
+export function subscribeDataSource(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/* ---------- fetch ---------- */
+
+// Text of a data file. The cached copy stands in only when the request itself
+// fails (offline); an HTTP error is thrown like any other load error.
+export async function fetchData(path: string): Promise<string> {
+  let res: Response;
+  try {
+    res = await fetch(path, { cache: "no-store" });
+  } catch (e) {
+    const cached = await readCached(path);
+    if (!cached) throw e;
+    markUsed(path, cached.fetchedAt);
+    return cached.text;
+  }
+  if (!res.ok) throw new Error(`Failed to load ${path.replace(/^\/data\//, "")}: ${res.status}`);
+  const text = await res.text();
+  void writeCached({ path, text, fetchedAt: new Date().toISOString() });
+  markUsed(path, null);
+  return text;
+}
+
+export async function fetchDataJSON<T>(path: string): Promise<T> {
+  return JSON.parse(await fetchData(path)) as T;
+}
+
+// "5 min", "3 h", "2 days"
+export function formatAge(iso: string, now = Date.now()): string {
+  const mins = Math.max(0, Math.round((now - new Date(iso).getTime()) / 60000));
+  if (mins < 60) return `${mins} min`;
+  const hours = Math.round(mins / 60);
+  if (hours < 48) return `${hours} h`;
+  return `${Math.round(hours / 24)} days`;
+}
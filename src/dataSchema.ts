@@ -0,0 +1,351 @@
+// src/dataSchema.ts
+// Shared CSV layer: one parser, one schema per data file, and a report of
+// everything that looked wrong while reading it.
+import { fetchData } from "./dataCache";
+
+export type ColumnType = "string" | "number" | "boolean";
+
+export type ColumnSpec = {
+  type: ColumnType;
+  required?: boolean; // value must be non-empty (row is dropped otherwise)
+  optional?: boolean; // column may be absent from the header
+};
+
+export type TableSchema = {
+  file: string;
+  columns: Record<string, ColumnSpec>;
+};
+
+type ValueOf<C extends ColumnSpec> = C["type"] extends "number"
+  ? C extends { required: true }
+    ? number
+    : number | null
+  : C["type"] extends "boolean"
+    ? boolean
+    : string;
+
+export type RowOf<S extends TableSchema> = {
+  -readonly [K in keyof S["columns"]]: ValueOf<S["columns"][K]>;
+};
+
+export type IssueKind =
+  | "missing_column"
+  | "unknown_column"
+  | "missing_value"
+  | "invalid_number"
+  | "invalid_boolean"
+  | "invalid_entry"; // JSON files: an entry of the wrong shape
+
+export type DataIssue = {
+  file: string;
+  severity: "error" | "warning";
+  kind: IssueKind;
+  column: string | null;
+  line: number | null; // 1-based, header is line 1
+  value?: string;
+  message: string;
+};
+
+export type Loaded<T> = {
+  rows: T[];
+  issues: DataIssue[];
+};
+
+/* ---------- schemas ---------- */
+
+export const PRODUCTS_SCHEMA = {
+  file: "products.csv",
+  columns: {
+    sku: { type: "string", required: true },
+    base_code: { type: "string", required: true },
+    title: { type: "string" },
+    color: { type: "string" },
+    size: { type: "string" },
+    image_src: { type: "string" },
+    enabled: { type: "boolean" },
+    // added later; older products.csv files don't have these
+    price: { type: "number", optional: true },
+    compare_at_price: { type: "number", optional: true },
+    inventory_quantity: { type: "number", optional: true },
+    product_id: { type: "string", optional: true },
+    variant_id: { type: "string", optional: true },
+    handle: { type: "string", optional: true },
+    tags: { type: "string", optional: true },
+  },
+} as const satisfies TableSchema;
+
+export const BASE_PRODUCTS_SCHEMA = {
+  file: "base_products.csv",
+  columns: {
+    code: { type: "string", required: true },
+    brand: { type: "string", required: true },
+    model_name: { type: "string" },
+    label: { type: "string", required: true },
+    category: { type: "string", required: true },
+    tier: { type: "string" },
+    organic: { type: "boolean" },
+    usa_made: { type: "boolean" },
+    active: { type: "boolean" },
+    retail_price: { type: "number", required: true },
+    fit_notes: { type: "string" },
+  },
+} as const satisfies TableSchema;
+
+export const TIER_MAP_SCHEMA = {
+  file: "tier_map.csv",
+  columns: {
+    code: { type: "string", required: true },
+    tier: { type: "string", required: true },
+  },
+} as const satisfies TableSchema;
+
+export const BRAND_TIER_MAP_SCHEMA = {
+  file: "brand_tier_map.csv",
+  columns: {
+    brand: { type: "string", required: true },
+    tier: { type: "string", required: true },
+  },
+} as const satisfies TableSchema;
+
+// Shopify tag -> base code, read by the sweep (scripts/sweep) before derived aliases
+export const BASE_ALIASES_SCHEMA = {
+  file: "base_aliases.csv",
+  columns: {
+    alias: { type: "string", required: true },
+    base_code: { type: "string", required: true },
+  },
+} as const satisfies TableSchema;
+
+// pricing inputs (see pricing.ts)
+export const BLANK_COSTS_SCHEMA = {
+  file: "blank_costs.csv",
+  columns: {
+    code: { type: "string", required: true },
+    blank_cost: { type: "number", required: true },
+  },
+} as const satisfies TableSchema;
+
+export const TIER_PRICING_SCHEMA = {
+  file: "tier_pricing.csv",
+  columns: {
+    tier: { type: "string", required: true },
+    markup: { type: "number", required: true },
+    min_price: { type: "number" },
+    max_price: { type: "number" },
+  },
+} as const satisfies TableSchema;
+
+export const SIZE_UPCHARGES_SCHEMA = {
+  file: "size_upcharges.csv",
+  columns: {
+    size: { type: "string", required: true },
+    upcharge: { type: "number", required: true },
+  },
+} as const satisfies TableSchema;
+
+/* ---------- fetch + validate ---------- */
+
+export async function fetchTable<S extends TableSchema>(schema: S): Promise<Loaded<RowOf<S>>> {
+  return readTable(schema, await fetchData(`/data/${schema.file}`));
+}
+
+export function readTable<S extends TableSchema>(schema: S, text: string): Loaded<RowOf<S>> {
+  const issues: DataIssue[] = [];
+  const rows = parseCSV(text);
+  const header = (rows.shift() || []).map((h) => h.trim());
+  const idx = Object.fromEntries(header.map((h, i) => [h, i])) as Record<string, number>;
+
+  const issue = (i: Omit<DataIssue, "file">) => issues.push({ file: schema.file, ...i });
+
+  // header checks: a missing required column makes the whole file unusable
+  let headerOk = true;
+  for (const [name, spec] of Object.entries(schema.columns)) {
+    if (name in idx || spec.optional) continue;
+    headerOk = false;
+    issue({
+      severity: "error",
+      kind: "missing_column",
+      column: name,
+      line: 1,
+      message: `${schema.file} has no "${name}" column`,
+    });
+  }
+  for (const h of header) {
+    if (h && !(h in schema.columns)) {
+      issue({
+        severity: "warning",
+        kind: "unknown_column",
+        column: h,
+        line: 1,
+        message: `${schema.file} has an unexpected "${h}" column`,
+      });
+    }
+  }
+  if (!headerOk) return { rows: [], issues };
+
+  const out: RowOf<S>[] = [];
+  rows.forEach((r, i) => {
+    if (!r.some((c) => String(c ?? "").trim() !== "")) return;
+    const line = i + 2;
+    const row: Record<string, string | number | boolean | null> = {};
+    let rowOk = true;
+
+    for (const [name, spec] of Object.entries(schema.columns)) {
+      const raw = name in idx ? (r[idx[name]] ?? "").trim() : "";
+
+      if (!raw) {
+        if (spec.required) {
+          rowOk = false;
+          issue({
+            severity: "error",
+            kind: "missing_value",
+            column: name,
+            line,
+            message: `line ${line}: empty ${name}`,
+          });
+        }
+        row[name] = spec.type === "number" ? null : spec.type === "boolean" ? false : "";
+        continue;
+      }
+
+      if (spec.type === "number") {
+        const n = Number(raw);
+        if (!Number.isFinite(n)) {
+          issue({
+            severity: spec.required ? "error" : "warning",
+            kind: "invalid_number",
+            column: name,
+            line,
+            value: raw,
+            message: `line ${line}: ${name} "${raw}" is not a number`,
+          });
+          if (spec.required) rowOk = false;
+          row[name] = null;
+        } else {
+          row[name] = n;
+        }
+      } else if (spec.type === "boolean") {
+        const v = raw.toLowerCase();
+        if (v !== "true" && v !== "false") {
+          issue({
+            severity: "warning",
+            kind: "invalid_boolean",
+            column: name,
+            line,
+            value: raw,
+            message: `line ${line}: ${name} "${raw}" is not true/false (read as false)`,
+          });
+        }
+        row[name] = v === "true";
+      } else {
+        row[name] = raw;
+      }
+    }
+
+    if (rowOk) out.push(row as RowOf<S>);
+  });
+
+  return { rows: out, issues };
+}
+
+/* ---------- report ---------- */
+
+const ROW_KIND_PHRASE: Record<Exclude<IssueKind, "missing_column" | "unknown_column">, string> = {
+  missing_value: "an empty",
+  invalid_number: "a non-numeric",
+  invalid_boolean: "a non-true/false",
+  invalid_entry: "an invalid",
+};
+
+export type IssueSummary = {
+  file: string;
+  severity: DataIssue["severity"];
+  kind: IssueKind;
+  column: string | null;
+  count: number;
+  text: string;
+  issues: DataIssue[];
+};
+
+// Groups row-level issues into one line per file/column/kind,
+// e.g. "3 rows in base_products.csv have a non-numeric retail_price"
+export function summarizeIssues(issues: DataIssue[]): IssueSummary[] {
+  const groups = new Map<string, DataIssue[]>();
+  for (const i of issues) {
+    const key = `${i.file}|${i.kind}|${i.column ?? ""}|${i.severity}`;
+    const list = groups.get(key);
+    if (list) list.push(i);
+    else groups.set(key, [i]);
+  }
+
+  return Array.from(groups.values())
+    .map((list) => {
+      const { file, severity, kind, column } = list[0];
+      const count = list.length;
+      let text: string;
+      if (kind === "missing_column" || kind === "unknown_column") {
+        text = list[0].message; // header issues are one per column already
+      } else {
+        text = `${count} ${count === 1 ? "row" : "rows"} in ${file} ${count === 1 ? "has" : "have"} ${ROW_KIND_PHRASE[kind]} ${column}`;
+      }
+      return { file, severity, kind, column, count, text, issues: list };
+    })
+    .sort((a, b) => (a.severity === b.severity ? a.file.localeCompare(b.file) : a.severity === "error" ? -1 : 1));
+}
+
+/* ---------- tiny CSV parser (quoted fields + CRLF) ---------- */
+
+export function parseCSV(src: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (inQuotes) {
+      if (c === '"') {
+        const next = src[i + 1];
+        if (next === '"') {
+          field += '"'; // escaped quote
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += c;
+      }
+    } else {
+      if (c === '"') inQuotes = true;
+      else if (c === ",") {
+        row.push(field);
+        field = "";
+      } else if (c === "\n") {
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = "";
+      } else if (c === "\r") {
+        // ignore
+      } else {
+        field += c;
+      }
+    }
+  }
+  row.push(field);
+  if (row.length > 1 || (row.length === 1 && row[0] !== "")) rows.push(row);
+  return rows;
+}
+
+/* ---------- CSV writer (same quoting rules as the sweep) ---------- */
+
+export function toCSV(rows: (string | number | boolean | null | undefined)[][]): string {
+  return rows
+    .map((r) =>
+      r
+        .map((v) => String(v ?? "").replace(/"/g, '""'))
+        .map((s) => (/[",\n]/.test(s) ? `"${s}"` : s))
+        .join(",")
+    )
+    .join("\n");
+}
@@ -0,0 +1,11 @@
+import { describe, expect, it } from "vitest";
+import { lintDescription } from "./descriptionLint";
+
+describe("lintDescription", () => {
+  it("flags a paragraph pasted twice", () => {
+    const findings = lintDescription("Soft and light.\n\n- 100% cotton\n\nSoft and light.");
+    expect(findings.filter((f) => f.kind === "duplicate_paragraph")).toEqual([
+      { kind: "duplicate_paragraph", severity: "warning", message: '"Soft and light." appears more than once.' },
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+// src/descriptionLint.ts
+// Per-base checks on the description that ends up in the copy block.
+import { parseDescription } from "./descriptionPipeline";
+
+export type LintKind =
+  | "no_fabric_weight"
+  | "no_care_info"
+  | "placeholder"
+  | "duplicate_paragraph"
+  | "units"
+  | "length";
+
+export type LintFinding = {
+  kind: LintKind;
+  severity: "error" | "warning";
+  message: string;
+};
+
+export const LINT_KIND_LABEL: Record<LintKind, string> = {
+  no_fabric_weight: "Fabric weight",
+  no_care_info: "Care info",
+  placeholder: "Placeholder text",
+  duplicate_paragraph: "Repeated paragraph",
+  units: "Units",
+  length: "Length",
+};
+
+// Characters of intro + bullets + closing text (the size guide doesn't count)
+export const DESCRIPTION_LENGTH = { min: 300, max: 1200 };
+
+const OZ_TO_GSM = 33.906;
+
+const CARE =
+  /\b(?:care instructions|machine[- ]wash|wash (?:cold|warm|inside out)|tumble[- ]dry|hang[- ]dry|line[- ]dry|do not (?:bleach|iron|dry[- ]clean))\b/i;
+
+const PLACEHOLDER = /lorem ipsum|\bTODO\b|\bTBD\b|\bXXX\b|\{\{[^}]*\}\}|\[(?:insert|placeholder|description)[^\]]*\]/i;
+
+export function lintDescription(raw: string): LintFinding[] {
+  const d = parseDescription(raw);
+  const out: LintFinding[] = [];
+  const body = [...d.intro, ...d.bullets, ...d.outro].join("\n");
+
+  if (!body.trim()) {
+    return [{ kind: "length", severity: "error", message: "Description is empty." }];
+  }
+
+  // ---- fabric weight & units ----
+  const w = d.fabricWeight;
+  if (!w || (w.oz === null && w.gsm === null)) {
+    out.push({ kind: "no_fabric_weight", severity: "error", message: "No fabric-weight bullet (e.g. 6.1 oz/yd² (206.8 g/m²))." });
+  } else if (w.oz === null || w.gsm === null) {
+    out.push({
+      kind: "units",
+      severity: "warning",
+      message:
+        w.oz === null
+          ? `Fabric weight only in g/m²; add oz/yd² (${(w.gsm! / OZ_TO_GSM).toFixed(1)} oz/yd²).`
+          : `Fabric weight only in oz; add g/m² (${Math.round(w.oz * OZ_TO_GSM)} g/m²).`,
+    });
+  } else if (Math.abs(w.oz * OZ_TO_GSM - w.gsm) / w.gsm > 0.03) {
+    out.push({
+      kind: "units",
+      severity: "error",
+      message: `${w.oz} oz/yd² is ${Math.round(w.oz * OZ_TO_GSM)} g/m², not ${w.gsm} g/m².`,
+    });
+  }
+
+  // ---- care ----
+  if (!CARE.test(body)) {
+    out.push({ kind: "no_care_info", severity: "warning", message: "No care instructions (washing / drying)." });
+  }
+
+  // ---- placeholders ----
+  const placeholder = body.match(PLACEHOLDER);
+  if (placeholder) {
+    out.push({ kind: "placeholder", severity: "error", message: `Placeholder text "${placeholder[0]}".` });
+  }
+
+  // ---- repeated paragraphs (left in place; the editor decides which to cut) ----
+  const seen = new Set<string>();
+  for (const b of d.blocks) {
+    if (b.type !== "p") continue;
+    if (seen.has(b.text)) {
+      const start = b.text.length > 60 ? `${b.text.slice(0, 60)}…` : b.text;
+      out.push({ kind: "duplicate_paragraph", severity: "warning", message: `"${start}" appears more than once.` });
+    }
+    seen.add(b.text);
+  }
+
+  // ---- length ----
+  const { min, max } = DESCRIPTION_LENGTH;
+  if (body.length < min || body.length > max) {
+    out.push({
+      kind: "length",
+      severity: "warning",
+      message: `${body.length} characters; aim for ${min}–${max}.`,
+    });
+  }
+
+  return out;
+}
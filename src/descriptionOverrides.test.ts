@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { mergeDescription, readOverrides } from "./descriptionOverrides";
+
+describe("readOverrides", () => {
+  it("keeps valid entries and reports the rest", () => {
+    const { overrides, issues } = readOverrides({
+      CC1717: { text: "Better copy.", mode: "override", updated_at: "2026-01-02T00:00:00Z" },
+      BC3501: "just a string",
+      AS5001T: { mode: "merged" },
+      AS5081: { text: 42, mode: "merged" },
+      CC6014: { text: "Copy", mode: "replace" },
+    });
+    expect(overrides).toEqual({
+      CC1717: { text: "Better copy.", mode: "override", updated_at: "2026-01-02T00:00:00Z" },
+    });
+    expect(issues.map((i) => [i.column, i.message.split(":")[0]])).toEqual([
+      ["entry", "BC3501"],
+      ["text", "AS5001T"],
+      ["text", "AS5081"],
+      ["mode", "CC6014"],
+    ]);
+  });
+
+  it("rejects Object.prototype names as modes", () => {
+    const { overrides, issues } = readOverrides({
+      CC1717: { text: "Copy", mode: "constructor" },
+      BC3501: { text: "Copy", mode: "toString" },
+    });
+    expect(overrides).toEqual({});
+    expect(issues.map((i) => i.value)).toEqual(["constructor", "toString"]);
+  });
+
+  it("ignores a file that isn't an object", () => {
+    const { overrides, issues } = readOverrides(["CC1717"]);
+    expect(overrides).toEqual({});
+    expect(issues).toHaveLength(1);
+  });
+});
+
+describe("mergeDescription", () => {
+  const shop = "Intro.\n\n- a\n\nBetween the lists.\n\n- b\n\nClosing.";
+
+  it("keeps the shop's block order and adds new bullets to its last list", () => {
+    expect(mergeDescription(shop, "New intro.\n\n- A\n- c")).toBe(
+      "New intro.\n\n- a\n\nBetween the lists.\n\n- b\n- c\n\nClosing."
+    );
+  });
+
+  it("replaces the closing paragraphs and starts a list when the shop has none", () => {
+    expect(mergeDescription(shop, "- a\n\nNew closing.")).toBe(
+      "Intro.\n\n- a\n\nBetween the lists.\n\n- b\n\nNew closing."
+    );
+    expect(mergeDescription("Intro.", "- c\n\nClosing.")).toBe("Intro.\n\n- c\n\nClosing.");
+  });
+});
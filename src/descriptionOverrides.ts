@@ -0,0 +1,208 @@
+// src/descriptionOverrides.ts
+// Curated descriptions per base code, in /data/description_overrides.json — a
+// file the nightly sweep never writes. Edits are kept in localStorage (with a
+// short version history per base) until the file is downloaded and committed.
+//
+// Each entry picks the text the copy block uses:
+//   shop     — descriptions.json as swept (the override is kept but unused)
+//   override — the override text only
+//   merged   — the shop text with the override's paragraphs, extra bullets
+//              and size guide laid over it
+import { fetchDataJSON } from "./dataCache";
+import { parseDescription, renderDescription, type DescriptionBlock } from "./descriptionPipeline";
+import type { DataIssue } from "./dataSchema";
+import type { Descriptions } from "./loadDescriptions";
+
+export type DescriptionMode = "shop" | "override" | "merged";
+
+export const DESCRIPTION_MODE_LABEL: Record<DescriptionMode, string> = {
+  shop: "Shop",
+  override: "Override",
+  merged: "Merged",
+};
+
+export type DescriptionOverride = {
+  text: string;
+  mode: DescriptionMode;
+  updated_at: string;
+};
+
+export type DescriptionOverrides = Record<string, DescriptionOverride>; // base code -> override
+
+export type LoadedOverrides = { overrides: DescriptionOverrides; issues: DataIssue[] };
+
+const FILE = "description_overrides.json";
+
+export async function loadDescriptionOverrides(): Promise<LoadedOverrides> {
+  try {
+    return readOverrides(await fetchDataJSON<unknown>(`/data/${FILE}`));
+  } catch {
+    return { overrides: {}, issues: [] };
+  }
+}
+
+// Keeps well-formed entries; each bad one is skipped with an issue for the load report
+export function readOverrides(json: unknown): LoadedOverrides {
+  const overrides: DescriptionOverrides = {};
+  const issues: DataIssue[] = [];
+  const issue = (column: string, message: string, value?: string) =>
+    issues.push({ file: FILE, severity: "error", kind: "invalid_entry", column, line: null, value, message });
+
+  if (!isRecord(json)) {
+    issue("entry", `${FILE} should map base codes to overrides; ignored`);
+    return { overrides, issues };
+  }
+  for (const [code, o] of Object.entries(json)) {
+    if (!isRecord(o)) issue("entry", `${code}: expected { text, mode, updated_at }; skipped`);
+    else if (typeof o.text !== "string") issue("text", `${code}: text must be a string; skipped`);
+    else if (!isMode(o.mode)) issue("mode", `${code}: unknown mode ${JSON.stringify(o.mode)}; skipped`, String(o.mode));
+    else overrides[code] = { text: o.text, mode: o.mode, updated_at: typeof o.updated_at === "string" ? o.updated_at : "" };
+  }
+  return { overrides, issues };
+}
+
+function isOverride(o: unknown): o is DescriptionOverride {
+  return isRecord(o) && typeof o.text === "string" && isMode(o.mode);
+}
+
+// hasOwn, not `in`: "constructor" or "toString" aren't modes
+function isMode(mode: unknown): mode is DescriptionMode {
+  return typeof mode === "string" && Object.hasOwn(DESCRIPTION_MODE_LABEL, mode);
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/* ---------- applying ---------- */
+
+// The descriptions the copy block should read, with each override's mode applied
+export function applyOverrides(descriptions: Descriptions, overrides: DescriptionOverrides): Descriptions {
+  const out = { ...descriptions };
+  for (const [code, o] of Object.entries(overrides)) {
+    if (!o.text.trim() || o.mode === "shop") continue;
+    out[code] = o.mode === "override" ? o.text : mergeDescription(descriptions[code] ?? "", o.text);
+  }
+  return out;
+}
+
+// Laid over the shop's blocks in order: the override's paragraphs before its
+// list replace the shop's leading paragraphs, the ones after replace the shop's
+// closing paragraphs, new bullets join the shop's last list (skipping ones
+// already there) and its size guide wins when it has one. Paragraphs between
+// the shop's lists stay where they are.
+export function mergeDescription(shop: string, override: string): string {
+  const s = parseDescription(shop);
+  const o = parseDescription(override);
+  const first = s.blocks.findIndex((b) => b.type === "ul");
+  const last = s.blocks.map((b) => b.type).lastIndexOf("ul");
+  const paragraphs = (texts: string[]) => texts.map((text) => ({ type: "p" as const, text }));
+
+  const head = first === -1 ? s.blocks : s.blocks.slice(0, first);
+  const lists = first === -1 ? [] : s.blocks.slice(first, last + 1);
+  const tail = last === -1 ? [] : s.blocks.slice(last + 1);
+
+  const seen = new Set(s.bullets.map((b) => b.toLowerCase()));
+  const extra = o.bullets.filter((b) => !seen.has(b.toLowerCase()));
+  const end = lists[lists.length - 1];
+  const merged: DescriptionBlock[] =
+    end?.type === "ul"
+      ? [...lists.slice(0, -1), { type: "ul", items: [...end.items, ...extra] }]
+      : extra.length
+        ? [{ type: "ul", items: extra }]
+        : [];
+
+  return renderDescription({
+    ...s,
+    blocks: [
+      ...(o.intro.length ? paragraphs(o.intro) : head),
+      ...merged,
+      ...(o.outro.length ? paragraphs(o.outro) : tail),
+    ],
+    sizeGuide: o.sizeGuide ?? s.sizeGuide,
+    sizeGuideText: o.sizeGuide || o.sizeGuideText ? o.sizeGuideText : s.sizeGuideText,
+  });
+}
+
+/* ---------- local edits ---------- */
+
+const EDITS_KEY = "af-frontend.description-overrides";
+const VERSIONS_KEY = "af-frontend.description-versions";
+const MAX_VERSIONS = 20; // per base
+
+// null marks an override removed locally
+export type OverrideEdits = Record<string, DescriptionOverride | null>;
+
+// Entries that are neither an override nor null (hand-edited storage) are dropped
+export function loadOverrideEdits(): OverrideEdits {
+  const stored = readJSON<unknown>(EDITS_KEY);
+  if (!isRecord(stored)) return {};
+  return Object.fromEntries(Object.entries(stored).filter(([, o]) => o === null || isOverride(o))) as OverrideEdits;
+}
+
+export function saveOverrideEdits(edits: OverrideEdits) {
+  writeJSON(EDITS_KEY, edits);
+}
+
+export function clearOverrideEdits() {
+  try {
+    localStorage.removeItem(EDITS_KEY);
+  } catch {
+    // ignore
+  }
+}
+
+// The committed file with local edits on top
+export function withEdits(file: DescriptionOverrides, edits: OverrideEdits): DescriptionOverrides {
+  const out = { ...file };
+  for (const [code, o] of Object.entries(edits)) {
+    if (o) out[code] = o;
+    else delete out[code];
+  }
+  return out;
+}
+
+export function loadVersions(code: string): DescriptionOverride[] {
+  return readVersions()[code] ?? [];
+}
+
+// Newest first; identical consecutive saves are not stored twice
+export function pushVersion(code: string, version: DescriptionOverride): DescriptionOverride[] {
+  const all = readVersions();
+  const list = all[code] ?? [];
+  if (list[0]?.text === version.text && list[0]?.mode === version.mode) return list;
+  all[code] = [version, ...list].slice(0, MAX_VERSIONS);
+  writeJSON(VERSIONS_KEY, all);
+  return all[code];
+}
+
+// Stable key order so the committed file diffs cleanly
+export function overridesToJSON(overrides: DescriptionOverrides): string {
+  const sorted = Object.fromEntries(Object.keys(overrides).sort().map((code) => [code, overrides[code]]));
+  return JSON.stringify(sorted, null, 2) + "\n";
+}
+
+function readVersions(): Record<string, DescriptionOverride[]> {
+  const stored = readJSON<unknown>(VERSIONS_KEY);
+  if (!isRecord(stored)) return {};
+  return Object.fromEntries(
+    Object.entries(stored).map(([code, list]) => [code, Array.isArray(list) ? list.filter(isOverride) : []])
+  );
+}
+
+function readJSON<T>(key: string): T | null {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeJSON(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // storage full or disabled: edits still live for this session
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { normalizeDescription, parseDescription } from "./descriptionPipeline";
+
+const SHOP = [
+  "Looking for a tee that feels broken-in from day one?",
+  "- 100% ring-spun cotton",
+  "- Fabric weight: 6.1 oz/yd² (207 g/m²)",
+  "- Relaxed fit with a classic crew neck",
+  "This product is made especially for you as soon as you place an order.",
+  "Size guide",
+  "WIDTH (inches)",
+  "LENGTH (inches)",
+  "S",
+  "18 ¼",
+  "28",
+  "M",
+  "20 ¼",
+  "29",
+].join("\n\n");
+
+describe("normalizeDescription", () => {
+  it("leaves an already normalized description unchanged", () => {
+    const once = normalizeDescription(SHOP);
+    expect(normalizeDescription(once)).toBe(once);
+    expect(once).toBe(
+      [
+        "Looking for a tee that feels broken-in from day one?",
+        "- 100% ring-spun cotton\n- Fabric weight: 6.1 oz/yd² (207 g/m²)\n- Relaxed fit with a classic crew neck",
+        "This product is made especially for you as soon as you place an order.",
+        "Size guide (inches)\nS: Width 18 ¼ · Length 28\nM: Width 20 ¼ · Length 29",
+      ].join("\n\n")
+    );
+  });
+
+  it("keeps paragraphs and bullet lists in source order", () => {
+    const text = "Intro.\n\n- a\n- b\n\nBetween the lists.\n\n- c\n\nClosing line.";
+    expect(normalizeDescription(text)).toBe(text);
+  });
+});
+
+describe("parseDescription", () => {
+  it("splits intro, bullets and outro around the first list", () => {
+    const d = parseDescription("Intro.\n\n- a\n\nBetween.\n\n- b\n\nClosing.");
+    expect(d.intro).toEqual(["Intro."]);
+    expect(d.bullets).toEqual(["a", "b"]);
+    expect(d.outro).toEqual(["Between.", "Closing."]);
+  });
+
+  it("keeps a repeated paragraph", () => {
+    const d = parseDescription("Soft and light.\n\n- a\n\nSoft and light.");
+    expect(d.blocks).toEqual([
+      { type: "p", text: "Soft and light." },
+      { type: "ul", items: ["a"] },
+      { type: "p", text: "Soft and light." },
+    ]);
+  });
+
+  it("prefers the weight bullet with both units", () => {
+    const d = parseDescription("- Midweight (6.1 oz)\n- Fabric weight: 6.1 oz/yd² (207 g/m²)");
+    expect(d.fabricWeight).toMatchObject({ oz: 6.1, gsm: 207 });
+  });
+});
@@ -0,0 +1,192 @@
+// src/descriptionPipeline.ts
+// One description pipeline for the sweep and the app:
+//
+//   Shopify body_html --htmlToText--> text --cleanDescription--> descriptions.json
+//   descriptions.json --parseDescription--> StructuredDescription --renderDescription--> copy block
+//
+// cleanDescription is idempotent, so text that already went through the sweep
+// can safely be cleaned again.
+import { canonicalSize, SIZE_ORDER } from "./sizes";
+
+export type FabricWeight = {
+  oz: number | null;  // oz/yd²
+  gsm: number | null; // g/m²
+  text: string;       // the bullet it was read from
+};
+
+export type SizeGuide = {
+  columns: string[];                         // "Width (inches)", …
+  rows: { size: string; values: string[] }[];
+} | null;
+
+// Paragraphs and bullet lists in source order
+export type DescriptionBlock = { type: "p"; text: string } | { type: "ul"; items: string[] };
+
+export type StructuredDescription = {
+  blocks: DescriptionBlock[]; // what renderDescription writes back
+  intro: string[];   // paragraphs before the first bullet list
+  bullets: string[]; // every bullet, in order
+  outro: string[];   // paragraphs after it (closing line, made-to-order note)
+  fabricWeight: FabricWeight | null;
+  fit: string | null; // the bullet describing the fit
+  sizeGuide: SizeGuide;
+  sizeGuideText: string; // raw lines after "Size guide" when they don't form a table
+};
+
+/* ---------- text ---------- */
+
+export function htmlToText(html: string | null | undefined): string {
+  return (html || "")
+    .replace(/<\s*br\s*\/?>/gi, "\n")
+    .replace(/<\/p>/gi, "\n\n")
+    .replace(/<li[^>]*>/gi, "- ")
+    .replace(/<\/li>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&#39;/g, "'")
+    .replace(/&quot;/g, '"')
+    .trim();
+}
+
+// Whitespace, bullets, quotes and unit symbols in one form
+export function cleanDescription(raw?: string): string {
+  if (!raw) return "";
+  return (
+    raw
+      .replace(/\r\n/g, "\n")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/p>\s*<p>/gi, "\n\n")
+      .replace(/<\/?[^>]+>/g, "")
+      .replace(/\u00a0/g, " ")
+      // quotes and inch marks
+      .replace(/[‘’]/g, "'")
+      .replace(/[“”″]/g, '"')
+      // units: "oz./yd.²", "oz/yd2", "g/m2", "gsm"
+      .replace(/oz\.?\s*\/\s*yd\.?\s*(?:²|2\b|\^2)/gi, "oz/yd²")
+      .replace(/g\s*\/\s*m(?:2\b|\^2)/gi, "g/m²")
+      .replace(/(\d)\s*gsm\b/gi, "$1 g/m²")
+      // "•", "*" and "-\n" bullets become "- "
+      .replace(/^[ \t]*[•*][ \t]+/gm, "- ")
+      .replace(/^[ \t]*-[ \t]*\n\s*(?=\S)/gm, "- ")
+      // "…decisions!Size guide" from adjacent <p> and <div> blocks
+      .replace(/([^\n])Size guide/g, "$1\n\nSize guide")
+      .replace(/[ \t]+\n/g, "\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim()
+  );
+}
+
+/* ---------- structure ---------- */
+
+export function parseDescription(raw?: string): StructuredDescription {
+  const text = cleanDescription(raw);
+  const heading = /^Size guide(?: \(inches\))?[ \t]*$/m.exec(text);
+  const body = heading ? text.slice(0, heading.index) : text;
+  const guide = heading ? text.slice(heading.index + heading[0].length) : "";
+
+  const blocks: DescriptionBlock[] = [];
+  for (const block of body.split(/\n\s*\n/).map((b) => b.trim()).filter(Boolean)) {
+    const lines = block.split("\n").map((l) => l.trim());
+    if (lines.every((l) => l.startsWith("- "))) {
+      // bullets split only by blank lines stay one list
+      const items = lines.map((l) => l.slice(2).trim()).filter(Boolean);
+      const last = blocks[blocks.length - 1];
+      if (last?.type === "ul") last.items.push(...items);
+      else if (items.length) blocks.push({ type: "ul", items });
+    } else {
+      blocks.push({ type: "p", text: block }); // repeats stay; descriptionLint flags them
+    }
+  }
+
+  const firstList = blocks.findIndex((b) => b.type === "ul");
+  const textOf = (list: DescriptionBlock[]) => list.flatMap((b) => (b.type === "p" ? [b.text] : []));
+  const intro = textOf(firstList === -1 ? blocks : blocks.slice(0, firstList));
+  const outro = firstList === -1 ? [] : textOf(blocks.slice(firstList + 1));
+  const bullets = blocks.flatMap((b) => (b.type === "ul" ? b.items : []));
+
+  // the most complete weight bullet: both units, then "Fabric weight: …", then any
+  const weights = bullets.filter((b) => /weight|\boz\b|g\/m²/i.test(b) && /\d/.test(b)).map(parseFabricWeight);
+  const weight =
+    weights.find((w) => w.oz !== null && w.gsm !== null) ?? weights.find((w) => /weight/i.test(w.text)) ?? weights[0];
+  const sizeGuide = parseSizeGuide(guide) ?? parseRenderedGuide(guide, heading?.[0].includes("(inches)") ?? false);
+  return {
+    blocks,
+    intro,
+    bullets,
+    outro,
+    fabricWeight: weight ?? null,
+    fit: bullets.find((b) => /\bfit\b/i.test(b)) ?? null,
+    sizeGuide,
+    sizeGuideText: sizeGuide ? "" : guide.trim(),
+  };
+}
+
+export function parseFabricWeight(text: string): FabricWeight {
+  const oz = text.match(/(\d+(?:\.\d+)?)\s*oz\b/i);
+  const gsm = text.match(/(\d+(?:\.\d+)?)\s*g\/m²/i);
+  return { oz: oz ? Number(oz[1]) : null, gsm: gsm ? Number(gsm[1]) : null, text };
+}
+
+// Shopify's size tables arrive one cell per line: header cells, then a size
+// followed by one value per column.
+function parseSizeGuide(text: string): SizeGuide {
+  const cells = text.split("\n").map((l) => l.trim()).filter(Boolean);
+  const isSize = (c: string) => SIZE_ORDER.includes(canonicalSize(c));
+  const first = cells.findIndex(isSize);
+  if (first <= 0) return null;
+  const columns = cells.slice(0, first).map(titleCase);
+  const rows: { size: string; values: string[] }[] = [];
+  for (let i = first; i < cells.length; i += columns.length + 1) {
+    const values = cells.slice(i + 1, i + 1 + columns.length);
+    if (!isSize(cells[i]) || values.length !== columns.length) return null;
+    rows.push({ size: cells[i], values });
+  }
+  return { columns, rows };
+}
+
+// The "S: Width 18 ¼ · Length 26 ⅝" lines renderDescription writes, so rendered
+// text (e.g. a merged override) parses back to the same structure
+function parseRenderedGuide(text: string, inches: boolean): SizeGuide {
+  const lines = text.split("\n").map((l) => l.trim()).filter(Boolean);
+  const rows: { size: string; values: string[] }[] = [];
+  let labels: string[] | null = null;
+  for (const line of lines) {
+    const m = /^(\S+):\s+(.+)$/.exec(line);
+    if (!m || !SIZE_ORDER.includes(canonicalSize(m[1]))) return null;
+    const cells = m[2].split(" · ").map((c) => /^(.*?)\s+(\d.*)$/.exec(c));
+    if (cells.some((c) => !c)) return null;
+    const rowLabels = cells.map((c) => c![1]);
+    if (labels && rowLabels.join("\u0000") !== labels.join("\u0000")) return null;
+    labels = rowLabels;
+    rows.push({ size: m[1], values: cells.map((c) => c![2]) });
+  }
+  if (!labels) return null;
+  return { columns: labels.map((l) => (inches ? `${l} (inches)` : l)), rows };
+}
+
+function titleCase(s: string): string {
+  return s.replace(/[A-Z]+/g, (w) => w[0] + w.slice(1).toLowerCase());
+}
+
+/* ---------- rendering ---------- */
+
+export function renderDescription(d: StructuredDescription): string {
+  const parts = d.blocks.map((b) => (b.type === "p" ? b.text : b.items.map((i) => `- ${i}`).join("\n")));
+  if (d.sizeGuide) {
+    const { columns, rows } = d.sizeGuide;
+    // "Width (inches)" on every column -> "Size guide (inches)" and "Width 18 ¼"
+    const unit = columns.every((c) => c.endsWith(" (inches)")) ? " (inches)" : "";
+    const labels = columns.map((c) => (unit ? c.slice(0, -unit.length) : c));
+    const lines = rows.map((r) => `${r.size}: ${r.values.map((v, i) => `${labels[i]} ${v}`).join(" · ")}`);
+    parts.push([`Size guide${unit}`, ...lines].join("\n"));
+  } else if (d.sizeGuideText) {
+    parts.push(`Size guide\n${d.sizeGuideText}`);
+  }
+  return parts.join("\n\n");
+}
+
+// Shopify/HTML-ish text -> tidy paragraphs, one bullet list, a readable size guide
+export function normalizeDescription(raw?: string): string {
+  return raw ? renderDescription(parseDescription(raw)) : "";
+}
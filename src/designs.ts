@@ -0,0 +1,121 @@
+// src/designs.ts
+// Designs within a base. Shopify product titles look like
+//   "Big Farma - Unisex Premium T-Shirt - Dark Edition — Black / M"
+//   "Ambien Unisex garment-dyed heavyweight t-shirt — Black / S"
+// so the design is the product title (before " — ") minus the edition suffix,
+// cut at the first " - " or at the first garment word.
+import type { Product } from "./loadProducts";
+import { sortSizes } from "./sizes";
+
+export type DesignInfo = {
+  key: string;     // normalized, for grouping across bases
+  name: string;    // as written in the first title seen
+  edition: string; // "Dark", "Light", "" …
+};
+
+export type DesignGroup = {
+  key: string;
+  name: string;
+  editions: string[];
+  products: Product[];
+  colors: string[];
+  sizes: string[];
+};
+
+const EDITION = /\s*-\s*(\w+)\s+Edition\s*$/i;
+const DASH = /\s+-\s*|\s*-\s+/; // " - ", "- ", " -" but not "garment-dyed"
+// First word of the garment description that follows the design name
+const GARMENT_WORD =
+  /\s+(?:unisex|women[’']?s|womens|men[’']?s|ladies[’']?|premium|garment-dyed|oversized|certified|organic|heavyweight|round)\b/i;
+
+export function designOf(title: string): DesignInfo {
+  let product = title.split(" — ")[0].trim();
+  let edition = "";
+  const ed = product.match(EDITION);
+  if (ed) {
+    edition = ed[1];
+    product = product.slice(0, ed.index).trim();
+  }
+  let name = product.split(DASH)[0];
+  const garment = name.match(GARMENT_WORD);
+  if (garment?.index) name = name.slice(0, garment.index);
+  name = name.trim() || product;
+  return { key: designKey(name), name, edition };
+}
+
+export function designKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[.!?]+$/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Groups in first-seen order
+export function groupByDesign(products: Product[]): DesignGroup[] {
+  const groups = new Map<string, DesignGroup>();
+  for (const p of products) {
+    const d = designOf(p.title);
+    let g = groups.get(d.key);
+    if (!g) {
+      g = { key: d.key, name: d.name, editions: [], products: [], colors: [], sizes: [] };
+      groups.set(d.key, g);
+    }
+    g.products.push(p);
+    if (d.edition && !g.editions.includes(d.edition)) g.editions.push(d.edition);
+  }
+  for (const g of groups.values()) {
+    g.colors = Array.from(new Set(g.products.map((p) => p.color).filter(Boolean)));
+    g.sizes = sortSizes(g.products.map((p) => p.size).filter(Boolean));
+  }
+  return Array.from(groups.values());
+}
+
+export type DesignCoverage = DesignGroup & {
+  missingColors: string[]; // offered by another design on this base
+  missingSizes: string[];
+  cells: number;           // color × size combinations present
+  coverage: number;        // cells / (all colors × all sizes on the base), 0..1
+};
+
+// Coverage of each design against everything the base offers across designs
+export function designCoverage(groups: DesignGroup[]): DesignCoverage[] {
+  const allColors = Array.from(new Set(groups.flatMap((g) => g.colors)));
+  const allSizes = sortSizes(groups.flatMap((g) => g.sizes));
+  const total = allColors.length * allSizes.length;
+  return groups.map((g) => {
+    const cells = new Set(g.products.map((p) => `${p.color}\u0000${p.size}`)).size;
+    return {
+      ...g,
+      missingColors: allColors.filter((c) => !g.colors.includes(c)),
+      missingSizes: allSizes.filter((s) => !g.sizes.includes(s)),
+      cells,
+      coverage: total ? Math.min(1, cells / total) : 0,
+    };
+  });
+}
+
+// Designs sold on other bases of `bases` but not on `baseCode`, with where they are
+export function designsMissingFromBase(
+  baseCode: string,
+  baseCodes: string[],
+  products: Product[]
+): { key: string; name: string; on: string[] }[] {
+  const inScope = new Set(baseCodes);
+  const here = new Set<string>();
+  const elsewhere = new Map<string, { key: string; name: string; on: string[] }>();
+  for (const p of products) {
+    if (!inScope.has(p.base_code)) continue;
+    const d = designOf(p.title);
+    if (p.base_code === baseCode) {
+      here.add(d.key);
+      continue;
+    }
+    const e = elsewhere.get(d.key) ?? { key: d.key, name: d.name, on: [] };
+    if (!e.on.includes(p.base_code)) e.on.push(p.base_code);
+    elsewhere.set(d.key, e);
+  }
+  return Array.from(elsewhere.values())
+    .filter((e) => !here.has(e.key))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,22 @@
+// src/download.ts
+
+// Triggers a browser download for generated content (exports, reports).
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function downloadText(text: string, filename: string, type = "text/plain") {
+  downloadBlob(new Blob([text], { type: `${type};charset=utf-8` }), filename);
+}
+
+// yyyy-mm-dd for export file names
+export function dateStamp(d = new Date()): string {
+  return d.toISOString().slice(0, 10);
+}
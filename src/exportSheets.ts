@@ -0,0 +1,102 @@
+// src/exportSheets.ts
+// Bulk listing-sheet export: one CSV row, or one text file, per selected base.
+import { buildCopyBlock, buildTemplateContext, type CopyInput } from "./copyBlock";
+import { toCSV } from "./dataSchema";
+import { featuresOfBase, type FeatureCode } from "./features";
+import { TIER_LABEL } from "./labels";
+import type { Product } from "./loadProducts";
+import { sortSizes } from "./sizes";
+import { buildZip } from "./zip";
+
+export type ListingSheet = {
+  code: string;
+  label: string;
+  category: string;
+  retail_price: number;
+  tier: string;
+  tier_label: string;
+  tags: string;
+  copy_block: string;
+  variant_count: number;
+  matrix: ColorRow[];
+};
+
+export type ColorRow = { color: string; sizes: string[] };
+
+// inputs share everything except the base and its variants
+export function buildListingSheets(inputs: CopyInput[]): ListingSheet[] {
+  return inputs.map((shared) => {
+    // the chips were toggled for one base; each sheet only claims what its base has
+    const input = { ...shared, features: supportedFeatures(shared) };
+    const b = input.base;
+    const ctx = buildTemplateContext(input);
+    return {
+      code: b.code,
+      label: b.label,
+      category: b.category,
+      retail_price: b.retail_price,
+      tier: b.tier,
+      tier_label: TIER_LABEL[b.tier] ?? b.tier,
+      tags: ctx.tags,
+      copy_block: buildCopyBlock(input),
+      variant_count: input.products.length,
+      matrix: colorSizeMatrix(input.products),
+    };
+  });
+}
+
+function supportedFeatures({ base, features, featureDefs }: CopyInput): Set<FeatureCode> {
+  const own = new Set(featuresOfBase(base, featureDefs).map((f) => f.code));
+  return new Set(Array.from(features).filter((code) => own.has(code)));
+}
+
+// Colors in first-seen order, each with the sizes it is offered in (canonical order)
+export function colorSizeMatrix(products: Product[]): ColorRow[] {
+  const byColor = new Map<string, string[]>();
+  for (const p of products) {
+    const sizes = byColor.get(p.color);
+    if (!sizes) byColor.set(p.color, [p.size]);
+    else sizes.push(p.size);
+  }
+  return Array.from(byColor, ([color, sizes]) => ({ color, sizes: sortSizes(sizes) }));
+}
+
+function matrixText(matrix: ColorRow[]): string {
+  return matrix.map((r) => `${r.color || "(no color)"}: ${r.sizes.join(" ")}`).join("\n");
+}
+
+/* ---------- file builders ---------- */
+
+export function sheetsToCSV(sheets: ListingSheet[]): string {
+  return toCSV([
+    ["code", "label", "category", "retail_price", "tier", "tier_label", "tags", "variant_count", "variants", "copy_block"],
+    ...sheets.map((s) => [
+      s.code,
+      s.label,
+      s.category,
+      s.retail_price.toFixed(2),
+      s.tier,
+      s.tier_label,
+      s.tags,
+      s.variant_count,
+      matrixText(s.matrix),
+      s.copy_block,
+    ]),
+  ]);
+}
+
+export function sheetsToZip(sheets: ListingSheet[]): Blob {
+  return buildZip([
+    { name: "listing_sheets.csv", data: sheetsToCSV(sheets) },
+    ...sheets.map((s) => ({
+      name: `${s.category}/${s.code}.txt`,
+      data:
+        `${s.copy_block}\n\n` +
+        `---\n` +
+        `Price: $${s.retail_price.toFixed(2)}\n` +
+        `Tier: ${s.tier_label} (${s.tier})\n` +
+        `Tags: ${s.tags}\n` +
+        `Variants (${s.variant_count}):\n${matrixText(s.matrix)}\n`,
+    })),
+  ]);
+}
@@ -0,0 +1,116 @@
+// src/features.ts
+// Feature chips (Organic, Made in USA, Triblend, …) defined in
+// /data/features.json instead of code. A feature applies to a base when the
+// base is in one of its categories (if any are listed) and either its code is
+// listed in `bases` or its `rule` matches the BaseProduct fields.
+import { fetchDataJSON } from "./dataCache";
+import type { BaseProduct } from "./loadBaseProducts";
+
+export type FeatureCode = string;
+
+export type FeatureRule =
+  | { field: keyof BaseProduct; equals: string | number | boolean }
+  | { field: keyof BaseProduct; matches: string } // case-insensitive regex
+  | { any: FeatureRule[] }
+  | { all: FeatureRule[] };
+
+export type FeatureDef = {
+  code: FeatureCode;
+  label: string;
+  categories?: string[]; // empty/missing = every category
+  rule?: FeatureRule;
+  bases?: string[];      // explicit base codes, in addition to the rule
+  auto_tag?: boolean;    // tag the copy block whenever the base has it, toggled or not
+  unavailable_hint?: string;
+};
+
+// What the chips were before features.json existed
+export const DEFAULT_FEATURES: FeatureDef[] = [
+  { code: "organic", label: "Organic", rule: { field: "organic", equals: true }, auto_tag: true },
+  {
+    code: "usa_made",
+    label: "Made in USA",
+    rule: { field: "usa_made", equals: true },
+    auto_tag: true,
+    unavailable_hint: "“Made in USA” will auto-enable when a USA base exists for this type.",
+  },
+  {
+    code: "triblend",
+    label: "Triblend",
+    categories: ["short_tee", "tank"],
+    rule: {
+      any: [
+        { field: "label", matches: "triblend" },
+        { field: "fit_notes", matches: "tri[- ]?blend" },
+        { field: "tier", equals: "alt_mid_triblend" },
+      ],
+    },
+  },
+];
+
+export async function loadFeatures(): Promise<FeatureDef[]> {
+  try {
+    const json = await fetchDataJSON<FeatureDef[]>("/data/features.json");
+    return Array.isArray(json) ? json.filter((f) => f && f.code && f.label) : DEFAULT_FEATURES;
+  } catch {
+    return DEFAULT_FEATURES;
+  }
+}
+
+/* ---------- evaluation ---------- */
+
+export function featureInCategory(f: FeatureDef, category: string | null): boolean {
+  return !f.categories?.length || (category !== null && f.categories.includes(category));
+}
+
+export function baseHasFeature(b: BaseProduct, f: FeatureDef): boolean {
+  if (!featureInCategory(f, b.category)) return false;
+  if (f.bases?.includes(b.code)) return true;
+  return f.rule ? matchRule(b, f.rule) : false;
+}
+
+function matchRule(b: BaseProduct, rule: FeatureRule): boolean {
+  if ("any" in rule) return rule.any.some((r) => matchRule(b, r));
+  if ("all" in rule) return rule.all.every((r) => matchRule(b, r));
+  const value = b[rule.field];
+  if ("equals" in rule) return String(value) === String(rule.equals);
+  try {
+    return new RegExp(rule.matches, "i").test(String(value ?? ""));
+  } catch {
+    return false; // bad regex in features.json never matches
+  }
+}
+
+// Features a base has on its own, regardless of chips
+export function featuresOfBase(b: BaseProduct, defs: FeatureDef[]): FeatureDef[] {
+  return defs.filter((f) => baseHasFeature(b, f));
+}
+
+// "Tags used": tier, auto-tagged features the base has, then toggled features
+export function featureTags(b: BaseProduct, active: Set<FeatureCode>, defs: FeatureDef[]): string[] {
+  const tags = new Set<string>([b.tier]);
+  for (const f of defs) {
+    if ((f.auto_tag && baseHasFeature(b, f)) || active.has(f.code)) tags.add(f.code);
+  }
+  return Array.from(tags).filter(Boolean);
+}
+
+/* ---------- chips vs. bases ---------- */
+
+// Toggled features the base does not actually have (the copy block would overclaim)
+export function contradictedFeatures(b: BaseProduct, active: Set<FeatureCode>, defs: FeatureDef[]): FeatureDef[] {
+  return defs.filter((f) => active.has(f.code) && !baseHasFeature(b, f));
+}
+
+// Number of toggled features the base has
+export function featureScore(b: BaseProduct, active: Set<FeatureCode>, defs: FeatureDef[]): number {
+  return defs.filter((f) => active.has(f.code) && baseHasFeature(b, f)).length;
+}
+
+// Bases ordered by how many toggled features they have (ties keep CSV order)
+export function rankBases(bases: BaseProduct[], active: Set<FeatureCode>, defs: FeatureDef[]) {
+  return bases
+    .map((b, i) => ({ base: b, score: featureScore(b, active, defs), i }))
+    .sort((x, y) => y.score - x.score || x.i - y.i)
+    .map(({ base, score }) => ({ base, score, full: score === active.size }));
+}
@@ -0,0 +1,37 @@
+// src/fuzzy.ts
+// Subsequence matching for the command palette: every query character must
+// appear in order; runs, word starts and an early first hit score higher.
+
+// -1 when `text` doesn't contain the query as a subsequence
+export function fuzzyScore(query: string, text: string): number {
+  const q = query.toLowerCase().replace(/\s+/g, "");
+  if (!q) return 0;
+  const t = text.toLowerCase();
+  let score = 0;
+  let ti = 0;
+  let prev = -2;
+  for (const ch of q) {
+    const i = t.indexOf(ch, ti);
+    if (i === -1) return -1;
+    score += 1;
+    if (i === prev + 1) score += 3; // consecutive
+    if (i === 0 || /[\s_\-—/(]/.test(t[i - 1])) score += 2; // word start
+    prev = i;
+    ti = i + 1;
+  }
+  const first = t.indexOf(q[0]);
+  if (t.startsWith(q)) score += 10;
+  else if (t.includes(q)) score += 5;
+  return score - Math.min(first, 10) * 0.1 - t.length * 0.01;
+}
+
+// Best-scoring items first; items that don't match are dropped
+export function fuzzyFilter<T>(items: T[], query: string, text: (item: T) => string, limit = 50): T[] {
+  if (!query.trim()) return items.slice(0, limit);
+  return items
+    .map((item) => ({ item, score: fuzzyScore(query, text(item)) }))
+    .filter((r) => r.score >= 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((r) => r.item);
+}
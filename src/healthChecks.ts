@@ -0,0 +1,148 @@
+// src/healthChecks.ts
+// Cross-checks the catalog files against each other so drift shows up
+// before a base gets listed.
+import { CATEGORY_LABEL, TIER_LABEL } from "./labels";
+import type { BaseProduct } from "./loadBaseProducts";
+import type { Descriptions } from "./loadDescriptions";
+import type { Product } from "./loadProducts";
+
+export type HealthKind =
+  | "orphan_variants"
+  | "no_inventory"
+  | "no_description"
+  | "duplicate_sku"
+  | "unknown_tier"
+  | "unknown_category";
+
+export type HealthFinding = {
+  kind: HealthKind;
+  baseCodes: string[]; // affected bases (may include codes with no active base)
+  message: string;
+  details?: string[];
+};
+
+export const HEALTH_KIND_LABEL: Record<HealthKind, string> = {
+  orphan_variants: "Variants with no active base",
+  no_inventory: "Bases with no inventory",
+  no_description: "Bases with no shop description",
+  duplicate_sku: "Duplicate SKUs",
+  unknown_tier: "Tier codes missing from TIER_LABEL",
+  unknown_category: "Categories missing from CATEGORY_LABEL",
+};
+
+export type HealthInput = {
+  bases: BaseProduct[]; // all rows, active or not
+  products: Product[];
+  tierMap: Map<string, string>;
+  brandTierMap: Map<string, string>;
+  descriptions: Descriptions;
+};
+
+export function checkDataHealth({
+  bases,
+  products,
+  tierMap,
+  brandTierMap,
+  descriptions,
+}: HealthInput): HealthFinding[] {
+  const findings: HealthFinding[] = [];
+  const active = bases.filter((b) => b.active);
+  const activeCodes = new Set(active.map((b) => b.code));
+  const inactiveCodes = new Set(bases.filter((b) => !b.active).map((b) => b.code));
+
+  // ---- variants whose base_code has no active base ----
+  const orphans = groupBy(
+    products.filter((p) => !activeCodes.has(p.base_code)),
+    (p) => p.base_code
+  );
+  for (const [code, list] of orphans) {
+    const why = inactiveCodes.has(code) ? "base is inactive" : "not in base_products.csv";
+    findings.push({
+      kind: "orphan_variants",
+      baseCodes: [code],
+      message: `${list.length} variant${list.length === 1 ? "" : "s"} tagged ${code} (${why})`,
+      details: list.map((p) => p.sku),
+    });
+  }
+
+  // ---- active bases with no enabled variants ----
+  const withInventory = new Set(products.filter((p) => p.enabled).map((p) => p.base_code));
+  for (const b of active) {
+    if (!withInventory.has(b.code)) {
+      findings.push({
+        kind: "no_inventory",
+        baseCodes: [b.code],
+        message: `${b.code} has no enabled variants in products.csv`,
+      });
+    }
+  }
+
+  // ---- active bases that fall back in buildDescription ----
+  for (const b of active) {
+    if (!(descriptions[b.code] ?? "").trim()) {
+      findings.push({
+        kind: "no_description",
+        baseCodes: [b.code],
+        message: `${b.code} has no entry in descriptions.json`,
+      });
+    }
+  }
+
+  // ---- duplicate SKUs ----
+  for (const [sku, list] of groupBy(products, (p) => p.sku)) {
+    if (list.length < 2) continue;
+    findings.push({
+      kind: "duplicate_sku",
+      baseCodes: unique(list.map((p) => p.base_code)),
+      message: `SKU ${sku} appears ${list.length} times`,
+      details: list.map((p) => `${p.base_code}: ${p.title}`),
+    });
+  }
+
+  // ---- tier codes without a label (resolved tiers + both tier maps) ----
+  const tierUsers = new Map<string, string[]>();
+  const noteTier = (tier: string, where: string) => {
+    if (!tier || tier in TIER_LABEL) return;
+    const list = tierUsers.get(tier);
+    if (list) list.push(where);
+    else tierUsers.set(tier, [where]);
+  };
+  for (const b of active) noteTier(b.tier, b.code);
+  for (const [code, tier] of tierMap) noteTier(tier, `tier_map.csv: ${code}`);
+  for (const [brand, tier] of brandTierMap) noteTier(tier, `brand_tier_map.csv: ${brand}`);
+  for (const [tier, where] of tierUsers) {
+    findings.push({
+      kind: "unknown_tier",
+      baseCodes: active.filter((b) => b.tier === tier).map((b) => b.code),
+      message: `Tier "${tier}" has no label`,
+      details: where,
+    });
+  }
+
+  // ---- categories without a label ----
+  for (const [category, list] of groupBy(active, (b) => b.category)) {
+    if (category in CATEGORY_LABEL) continue;
+    findings.push({
+      kind: "unknown_category",
+      baseCodes: list.map((b) => b.code),
+      message: `Category "${category}" has no label`,
+    });
+  }
+
+  return findings;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const out = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    const list = out.get(k);
+    if (list) list.push(item);
+    else out.set(k, [item]);
+  }
+  return out;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
@@ -0,0 +1,150 @@
+// src/imageChecks.ts
+// Image checks for the inventory: which image_src URLs fail to load (seen by
+// the grid or probed on demand), which images are reused across colors (the
+// sweep's product-image fallback) and which colors of a base have no image.
+import type { Product } from "./loadProducts";
+
+/* ---------- load status ---------- */
+
+export type ImageStatus = "ok" | "failed";
+
+let statuses = new Map<string, ImageStatus>(); // image_src -> last result
+const listeners = new Set<() => void>();
+
+function setStatus(src: string, status: ImageStatus) {
+  if (!src || statuses.get(src) === status) return;
+  statuses = new Map(statuses).set(src, status); // new identity for useSyncExternalStore
+  listeners.forEach((l) => l());
+}
+
+// Called from <img onError> before it swaps in the fallback
+export function reportImageFailure(src: string) {
+  setStatus(src, "failed");
+}
+
+export function getImageStatuses(): Map<string, ImageStatus> {
+  return statuses;
+}
+
+export function subscribeImageStatuses(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// Loads each URL once, a few at a time; results land in the shared status map
+export async function probeImages(
+  srcs: string[],
+  onProgress?: (done: number, total: number) => void,
+  concurrency = 6
+): Promise<void> {
+  const queue = Array.from(new Set(srcs.filter(Boolean)));
+  const total = queue.length;
+  let done = 0;
+  async function worker() {
+    for (let src = queue.shift(); src !== undefined; src = queue.shift()) {
+      setStatus(src, (await loads(src)) ? "ok" : "failed");
+      onProgress?.(++done, total);
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(concurrency, total) }, worker));
+}
+
+function loads(src: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => resolve(img.naturalWidth > 0);
+    img.onerror = () => resolve(false);
+    img.src = src;
+  });
+}
+
+/* ---------- findings ---------- */
+
+export type SharedImage = {
+  image_src: string;
+  base_codes: string[];
+  colors: string[];
+  products: Product[];
+};
+
+export type MissingColorImage = {
+  base_code: string;
+  color: string;
+  reason: "no_image" | "failed";
+  products: Product[];
+};
+
+// One image_src on variants of more than one color
+export function sharedImages(products: Product[]): SharedImage[] {
+  const bySrc = new Map<string, Product[]>();
+  for (const p of products) {
+    if (!p.image_src) continue;
+    const list = bySrc.get(p.image_src);
+    if (list) list.push(p);
+    else bySrc.set(p.image_src, [p]);
+  }
+  return Array.from(bySrc, ([image_src, list]) => ({
+    image_src,
+    base_codes: unique(list.map((p) => p.base_code)),
+    colors: unique(list.map((p) => p.color)),
+    products: list,
+  })).filter((s) => s.colors.length > 1);
+}
+
+// Colors of a base where no variant has a working image
+export function missingImagesByColor(products: Product[], status: Map<string, ImageStatus>): MissingColorImage[] {
+  const groups = new Map<string, Product[]>();
+  for (const p of products) {
+    const key = `${p.base_code}\u0000${p.color}`;
+    const list = groups.get(key);
+    if (list) list.push(p);
+    else groups.set(key, [p]);
+  }
+  const out: MissingColorImage[] = [];
+  for (const list of groups.values()) {
+    const srcs = list.map((p) => p.image_src).filter(Boolean);
+    if (srcs.some((src) => status.get(src) !== "failed")) continue;
+    out.push({
+      base_code: list[0].base_code,
+      color: list[0].color,
+      reason: srcs.length ? "failed" : "no_image",
+      products: list,
+    });
+  }
+  return out.sort((a, b) => a.base_code.localeCompare(b.base_code) || a.color.localeCompare(b.color));
+}
+
+export function failedProducts(products: Product[], status: Map<string, ImageStatus>): Product[] {
+  return products.filter((p) => p.image_src && status.get(p.image_src) === "failed");
+}
+
+/* ---------- report ---------- */
+
+export function imageReportRows(
+  failed: Product[],
+  shared: SharedImage[],
+  missing: MissingColorImage[]
+): string[][] {
+  return [
+    ["issue", "base_code", "color", "skus", "image_src"],
+    ...failed.map((p) => ["failed_to_load", p.base_code, p.color, p.sku, p.image_src]),
+    ...shared.map((s) => [
+      "shared_across_colors",
+      s.base_codes.join(" "),
+      s.colors.join(" / "),
+      s.products.map((p) => p.sku).join(" "),
+      s.image_src,
+    ]),
+    ...missing.map((m) => [
+      m.reason === "failed" ? "color_images_failed" : "color_without_image",
+      m.base_code,
+      m.color,
+      m.products.map((p) => p.sku).join(" "),
+      "",
+    ]),
+  ];
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.filter(Boolean)));
+}
@@ -0,0 +1,21 @@
+/* ---------- labels ---------- */
+
+// Human labels for the category codes in your CSV
+export const CATEGORY_LABEL: Record<string, string> = {
+  short_tee: "Short Sleeve",
+  long_tee: "Long Sleeve",
+  hoodie: "Unisex Hoodie",
+  crew: "Sweatshirt",
+  tank: "Tank",
+  crop: "Crop Tee",
+};
+
+// Human labels for tiers shown in the copy block
+export const TIER_LABEL: Record<string, string> = {
+  std: "Std",
+  mid: "Mid",
+  premium_non_org: "Premium",
+  premium_org: "Premium +",
+  heavy_top: "Mid",        // pick what you prefer for this
+  alt_mid_triblend: "Mid", // fallback
+};
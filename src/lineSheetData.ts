@@ -0,0 +1,69 @@
+// src/lineSheetData.ts
+// Data for the printable line sheet: one section per category, one entry per
+// base with a representative image per color and its size range.
+import { parseDescription } from "./descriptionPipeline";
+import { CATEGORY_LABEL } from "./labels";
+import type { BaseProduct } from "./loadBaseProducts";
+import type { Descriptions } from "./loadDescriptions";
+import type { Product } from "./loadProducts";
+import { sortSizes } from "./sizes";
+
+export type LineSheetColumn = "images" | "tier" | "price" | "sizes" | "fit" | "fabric" | "description" | "code";
+
+export const LINE_SHEET_COLUMN_LABEL: Record<LineSheetColumn, string> = {
+  images: "Color swatches",
+  tier: "Tier",
+  price: "Price",
+  sizes: "Size range",
+  fit: "Fit notes",
+  fabric: "Fabric weight",
+  description: "Description",
+  code: "Base code",
+};
+
+export const DEFAULT_COLUMNS: LineSheetColumn[] = ["images", "tier", "price", "sizes", "fit"];
+
+export type LineSheetEntry = {
+  base: BaseProduct;
+  swatches: { color: string; image: string }[]; // first image seen per color
+  sizes: string[];
+  sizeRange: string; // "S–3XL"
+  fabric: string;    // "6.1 oz/yd² (207 g/m²)" or ""
+  blurb: string;     // first paragraph of the description
+};
+
+export type LineSheetSection = { category: string; label: string; entries: LineSheetEntry[] };
+
+// Sections in first-seen category order, bases in the order given
+export function buildLineSheet(bases: BaseProduct[], products: Product[], descriptions: Descriptions): LineSheetSection[] {
+  const sections = new Map<string, LineSheetSection>();
+  for (const base of bases) {
+    let section = sections.get(base.category);
+    if (!section) {
+      section = { category: base.category, label: CATEGORY_LABEL[base.category] ?? base.category, entries: [] };
+      sections.set(base.category, section);
+    }
+    const variants = products.filter((p) => p.base_code === base.code && p.enabled);
+    const swatches = new Map<string, string>();
+    for (const p of variants) {
+      if (p.color && !swatches.get(p.color)) swatches.set(p.color, p.image_src);
+    }
+    const sizes = sortSizes(variants.map((p) => p.size).filter(Boolean));
+    const d = parseDescription(descriptions[base.code]);
+    section.entries.push({
+      base,
+      swatches: Array.from(swatches, ([color, image]) => ({ color, image })),
+      sizes,
+      sizeRange: sizes.length > 1 ? `${sizes[0]}–${sizes[sizes.length - 1]}` : (sizes[0] ?? ""),
+      fabric: d.fabricWeight ? formatWeight(d.fabricWeight.oz, d.fabricWeight.gsm) : "",
+      blurb: d.intro[0] ?? "",
+    });
+  }
+  return Array.from(sections.values());
+}
+
+function formatWeight(oz: number | null, gsm: number | null): string {
+  if (oz !== null && gsm !== null) return `${oz} oz/yd² (${Math.round(gsm)} g/m²)`;
+  if (oz !== null) return `${oz} oz/yd²`;
+  return gsm !== null ? `${Math.round(gsm)} g/m²` : "";
+}
@@ -1,4 +1,12 @@
 // src/loadBaseProducts.ts
+import {
+  BASE_PRODUCTS_SCHEMA,
+  BRAND_TIER_MAP_SCHEMA,
+  fetchTable,
+  TIER_MAP_SCHEMA,
+  type DataIssue,
+} from "./dataSchema";
+
 export type BaseProduct = {
   code: string;
   brand: string;
@@ -13,127 +21,46 @@ export type BaseProduct = {
   fit_notes: string;
 };
 
-export async function loadBaseProducts(): Promise<BaseProduct[]> {
-  // Load: base_products, per-base tier map, and brand tier map (in parallel)
-  const [bpRes, tierRes, brandRes] = await Promise.all([
-    fetch("/data/base_products.csv", { cache: "no-store" }),
-    fetch("/data/tier_map.csv", { cache: "no-store" }),
-    fetch("/data/brand_tier_map.csv", { cache: "no-store" }),
-  ]);
-
-  if (!bpRes.ok) throw new Error(`Failed to load base_products.csv: ${bpRes.status}`);
-  if (!tierRes.ok) throw new Error(`Failed to load tier_map.csv: ${tierRes.status}`);
-  if (!brandRes.ok) throw new Error(`Failed to load brand_tier_map.csv: ${brandRes.status}`);
+export type LoadedBaseProducts = {
+  rows: BaseProduct[];
+  tierMap: Map<string, string>;      // code -> tier (tier_map.csv)
+  brandTierMap: Map<string, string>; // brand -> tier (brand_tier_map.csv)
+  issues: DataIssue[];
+};
 
-  const [bpText, tierText, brandText] = await Promise.all([
-    bpRes.text(),
-    tierRes.text(),
-    brandRes.text(),
+export async function loadBaseProducts(): Promise<LoadedBaseProducts> {
+  // Load: base_products, per-base tier map, and brand tier map (in parallel)
+  const [bp, tiers, brands] = await Promise.all([
+    fetchTable(BASE_PRODUCTS_SCHEMA),
+    fetchTable(TIER_MAP_SCHEMA),
+    fetchTable(BRAND_TIER_MAP_SCHEMA),
   ]);
 
-  // ---- Build per-base tier map: code -> tier ----
-  const tierRows = parseCSV(tierText);
-  const tierHeader = (tierRows.shift() || []).map((h) => h.trim());
-  const tIdx = Object.fromEntries(tierHeader.map((h, i) => [h, i])) as Record<string, number>;
-  const tierMap = new Map<string, string>();
-  tierRows.forEach((r) => {
-    const code = (r[tIdx.code] ?? "").trim();
-    const tier = (r[tIdx.tier] ?? "").trim();
-    if (code) tierMap.set(code, tier);
-  });
-
-  // ---- Build brand tier map: brand -> tier (std|mid|premium) ----
-  const brandRows = parseCSV(brandText);
-  const brandHeader = (brandRows.shift() || []).map((h) => h.trim());
-  const bIdx = Object.fromEntries(brandHeader.map((h, i) => [h, i])) as Record<string, number>;
-  const brandMap = new Map<string, string>();
-  brandRows.forEach((r) => {
-    const brand = (r[bIdx.brand] ?? "").trim();
-    const tier = (r[bIdx.tier] ?? "").trim();
-    if (brand) brandMap.set(brand, tier);
-  });
+  const tierMap = new Map(tiers.rows.map((r) => [r.code, r.tier]));
+  const brandTierMap = new Map(brands.rows.map((r) => [r.brand, r.tier]));
 
-  // ---- Parse base_products.csv and apply tier logic ----
-  const rows = parseCSV(bpText);
-  const header = (rows.shift() || []).map((h) => h.trim());
-  const idx = Object.fromEntries(header.map((h, i) => [h, i])) as Record<string, number>;
+  const rows = bp.rows.map((r) => ({ ...r, tier: resolveTier(r, tierMap, brandTierMap).tier }));
 
-  const toBool = (v: unknown) => String(v ?? "").trim().toLowerCase() === "true";
-  const toNum = (v: unknown) => {
-    const n = Number(v);
-    return Number.isFinite(n) ? n : 0;
+  return {
+    rows,
+    tierMap,
+    brandTierMap,
+    issues: [...bp.issues, ...tiers.issues, ...brands.issues],
   };
-
-  const items = rows
-    .filter((r) => r && r.some((c) => String(c ?? "").trim() !== ""))
-    .map((r) => {
-      const code = (r[idx.code] ?? "").trim();
-      const brand = (r[idx.brand] ?? "").trim();
-      const tierFromSource = (r[idx.tier] ?? "").trim();
-      // Priority: explicit tier in base_products.csv → per-base override → brand default → ""
-      const tier =
-        tierFromSource ||
-        tierMap.get(code) ||
-        brandMap.get(brand) ||
-        "";
-
-      return {
-        code,
-        brand,
-        model_name: (r[idx.model_name] ?? "").trim(),
-        label: (r[idx.label] ?? "").trim(),
-        category: (r[idx.category] ?? "").trim(),
-        tier,
-        organic: toBool(r[idx.organic]),
-        usa_made: toBool(r[idx.usa_made]),
-        active: toBool(r[idx.active]),
-        retail_price: toNum(r[idx.retail_price]),
-        fit_notes: (r[idx.fit_notes] ?? "").trim(),
-      } as BaseProduct;
-    });
-
-  return items;
 }
 
-/* -------- tiny CSV parser (quoted fields + CRLF) -------- */
-function parseCSV(src: string): string[][] {
-  const rows: string[][] = [];
-  let row: string[] = [];
-  let field = "";
-  let inQuotes = false;
+export type TierSource = "explicit" | "tier_map" | "brand_map" | "none";
 
-  for (let i = 0; i < src.length; i++) {
-    const c = src[i];
-    if (inQuotes) {
-      if (c === '"') {
-        const next = src[i + 1];
-        if (next === '"') {
-          field += '"'; // escaped quote
-          i++;
-        } else {
-          inQuotes = false;
-        }
-      } else {
-        field += c;
-      }
-    } else {
-      if (c === '"') inQuotes = true;
-      else if (c === ",") {
-        row.push(field);
-        field = "";
-      } else if (c === "\n") {
-        row.push(field);
-        rows.push(row);
-        row = [];
-        field = "";
-      } else if (c === "\r") {
-        // ignore
-      } else {
-        field += c;
-      }
-    }
-  }
-  row.push(field);
-  if (row.length > 1 || (row.length === 1 && row[0] !== "")) rows.push(row);
-  return rows;
+// Priority: explicit tier in base_products.csv → per-base override → brand default → ""
+export function resolveTier(
+  b: Pick<BaseProduct, "code" | "brand" | "tier">,
+  tierMap: Map<string, string>,
+  brandTierMap: Map<string, string>
+): { tier: string; source: TierSource } {
+  if (b.tier) return { tier: b.tier, source: "explicit" };
+  const perBase = tierMap.get(b.code);
+  if (perBase) return { tier: perBase, source: "tier_map" };
+  const byBrand = brandTierMap.get(b.brand);
+  if (byBrand) return { tier: byBrand, source: "brand_map" };
+  return { tier: "", source: "none" };
 }
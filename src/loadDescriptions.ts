@@ -1,10 +1,10 @@
+import { fetchDataJSON } from "./dataCache";
+
 export type Descriptions = Record<string, string>;
 
 export async function loadDescriptions(): Promise<Descriptions> {
   try {
-    const res = await fetch("/data/descriptions.json", { cache: "no-store" });
-    if (!res.ok) return {};
-    return (await res.json()) as Descriptions;
+    return await fetchDataJSON<Descriptions>("/data/descriptions.json");
   } catch {
     return {};
   }
@@ -0,0 +1,22 @@
+// src/meta.ts
+// meta.json, written by the nightly sweep next to products.csv.
+import { fetchDataJSON } from "./dataCache";
+
+export type Meta = {
+  last_updated?: string; // ISO time of the sweep
+  shop?: string;         // my-shop.myshopify.com, for admin links
+};
+
+// Non-fatal: no meta just means no timestamp and no admin links
+export async function loadMeta(): Promise<Meta> {
+  try {
+    return await fetchDataJSON<Meta>("/data/meta.json");
+  } catch {
+    return {};
+  }
+}
+
+export function shopifyAdminUrl(shop: string, productId: string, variantId?: string): string {
+  const base = `https://${shop}/admin/products/${productId}`;
+  return variantId ? `${base}/variants/${variantId}` : base;
+}
@@ -0,0 +1,111 @@
+// src/pricing.ts
+// Suggested retail from blank cost × tier markup, plus 2XL+ upcharges and
+// a check of current prices against each tier's band.
+import {
+  BLANK_COSTS_SCHEMA,
+  fetchTable,
+  SIZE_UPCHARGES_SCHEMA,
+  TIER_PRICING_SCHEMA,
+  type DataIssue,
+} from "./dataSchema";
+import type { BaseProduct } from "./loadBaseProducts";
+import { canonicalSize } from "./sizes";
+
+export type TierRule = {
+  tier: string;
+  markup: number;
+  min_price: number | null;
+  max_price: number | null;
+};
+
+export type Pricing = {
+  blankCosts: Map<string, number>;  // base code -> blank cost
+  tierRules: Map<string, TierRule>; // tier code -> rule
+  upcharges: Map<string, number>;   // canonical size -> upcharge
+};
+
+export type PriceQuote = {
+  code: string;
+  tier: string;
+  cost: number | null;
+  rule: TierRule | null;
+  current: number;
+  suggested: number | null;
+  currentMargin: number | null;   // 0..1
+  suggestedMargin: number | null; // 0..1
+  band: "below" | "above" | null; // current price outside the tier's band
+  problems: string[];
+};
+
+export const EMPTY_PRICING: Pricing = {
+  blankCosts: new Map(),
+  tierRules: new Map(),
+  upcharges: new Map(),
+};
+
+// Missing pricing files are not fatal: the panel just has nothing to suggest.
+export async function loadPricing(): Promise<{ pricing: Pricing; issues: DataIssue[] }> {
+  try {
+    const [costs, rules, ups] = await Promise.all([
+      fetchTable(BLANK_COSTS_SCHEMA),
+      fetchTable(TIER_PRICING_SCHEMA),
+      fetchTable(SIZE_UPCHARGES_SCHEMA),
+    ]);
+    return {
+      pricing: {
+        blankCosts: new Map(costs.rows.map((r) => [r.code, r.blank_cost])),
+        tierRules: new Map(rules.rows.map((r) => [r.tier, r])),
+        upcharges: new Map(ups.rows.map((r) => [canonicalSize(r.size), r.upcharge])),
+      },
+      issues: [...costs.issues, ...rules.issues, ...ups.issues],
+    };
+  } catch {
+    return { pricing: EMPTY_PRICING, issues: [] };
+  }
+}
+
+// Retail prices end in .50 or .00, so suggestions round up to the next half dollar
+export function roundPrice(n: number): number {
+  return Math.ceil(n * 2 - 1e-9) / 2;
+}
+
+export function quoteBase(b: BaseProduct, pricing: Pricing): PriceQuote {
+  const cost = pricing.blankCosts.get(b.code) ?? null;
+  const rule = pricing.tierRules.get(b.tier) ?? null;
+  const suggested = cost !== null && rule ? roundPrice(cost * rule.markup) : null;
+  const margin = (price: number) => (cost !== null && price > 0 ? (price - cost) / price : null);
+
+  const problems: string[] = [];
+  if (cost === null) problems.push("no blank cost");
+  if (!rule) problems.push(`no markup rule for tier "${b.tier || "none"}"`);
+
+  let band: PriceQuote["band"] = null;
+  if (rule?.min_price != null && b.retail_price < rule.min_price) band = "below";
+  if (rule?.max_price != null && b.retail_price > rule.max_price) band = "above";
+
+  return {
+    code: b.code,
+    tier: b.tier,
+    cost,
+    rule,
+    current: b.retail_price,
+    suggested,
+    currentMargin: margin(b.retail_price),
+    suggestedMargin: suggested === null ? null : margin(suggested),
+    band,
+    problems,
+  };
+}
+
+export function sizeUpcharge(size: string, pricing: Pricing): number {
+  return pricing.upcharges.get(canonicalSize(size)) ?? 0;
+}
+
+// Price for one size, starting from either the current or the suggested retail
+export function priceForSize(basePrice: number, size: string, pricing: Pricing): number {
+  return basePrice + sizeUpcharge(size, pricing);
+}
+
+export function formatMargin(m: number | null): string {
+  return m === null ? "—" : `${Math.round(m * 100)}%`;
+}
@@ -0,0 +1,200 @@
+// src/searchQuery.ts
+// Catalog-wide variant search with a small query syntax:
+//
+//   color:black size:XL brand:"AS Colour" tier:premium_org price<40 organic:true -color:white
+//   feature:triblend   (any code from features.json)
+//
+// Bare words match sku, title, color, size, base code and label. A leading
+// "-" negates a term or filter.
+import { baseHasFeature, type FeatureDef } from "./features";
+import { CATEGORY_LABEL } from "./labels";
+import type { BaseProduct } from "./loadBaseProducts";
+import type { Product } from "./loadProducts";
+import { canonicalSize, compareSizes } from "./sizes";
+
+export type SearchField =
+  | "color"
+  | "size"
+  | "brand"
+  | "category"
+  | "tier"
+  | "price"
+  | "organic"
+  | "usa_made"
+  | "feature"
+  | "sku"
+  | "base"
+  | "title";
+
+export type Comparison = ":" | "<" | "<=" | ">" | ">=";
+
+export type QueryFilter = { field: SearchField; op: Comparison; value: string; negate: boolean };
+export type QueryTerm = { text: string; negate: boolean };
+export type ParsedQuery = { filters: QueryFilter[]; terms: QueryTerm[]; errors: string[] };
+
+export type CatalogRow = { product: Product; base: BaseProduct };
+
+export type FacetField = "color" | "size" | "brand" | "category" | "tier";
+export const FACET_FIELDS: FacetField[] = ["color", "size", "brand", "category", "tier"];
+export type Facets = Record<FacetField, { value: string; count: number }[]>;
+
+const FIELDS = new Set<SearchField>([
+  "color",
+  "size",
+  "brand",
+  "category",
+  "tier",
+  "price",
+  "organic",
+  "usa_made",
+  "feature",
+  "sku",
+  "base",
+  "title",
+]);
+
+// field aliases people naturally type
+const FIELD_ALIAS: Record<string, SearchField> = { usa: "usa_made", code: "base", cat: "category" };
+
+/* ---------- parsing ---------- */
+
+export function parseQuery(q: string): ParsedQuery {
+  const out: ParsedQuery = { filters: [], terms: [], errors: [] };
+  // -?field(op)"quoted value" | -?field(op)value | -?"quoted" | -?word
+  const re = /(-?)(?:([a-z_]+)(<=|>=|:|<|>)(?:"([^"]*)"|(\S*))|"([^"]*)"|(\S+))/gi;
+  for (const m of q.matchAll(re)) {
+    const negate = m[1] === "-";
+    if (m[2]) {
+      const name = m[2].toLowerCase();
+      const field = (FIELD_ALIAS[name] ?? name) as SearchField;
+      const value = (m[4] ?? m[5] ?? "").trim();
+      if (!FIELDS.has(field)) {
+        out.errors.push(`Unknown field "${m[2]}"`);
+        continue;
+      }
+      if (!value) continue; // still typing
+      const op = m[3] as Comparison;
+      if (op !== ":" && field !== "price") {
+        out.errors.push(`"${m[2]}" only supports ":"`);
+        continue;
+      }
+      if (field === "price" && !Number.isFinite(Number(value))) {
+        out.errors.push(`price${op}${value} is not a number`);
+        continue;
+      }
+      out.filters.push({ field, op, value, negate });
+    } else {
+      const text = (m[6] ?? m[7] ?? "").trim();
+      if (text && text !== "-") out.terms.push({ text, negate });
+    }
+  }
+  return out;
+}
+
+/* ---------- matching ---------- */
+
+export function searchCatalog(rows: CatalogRow[], query: ParsedQuery, featureDefs: FeatureDef[]): CatalogRow[] {
+  return rows.filter(
+    (row) =>
+      query.filters.every((f) => matchFilter(row, f, featureDefs) !== f.negate) &&
+      query.terms.every((t) => matchTerm(row, t.text) !== t.negate)
+  );
+}
+
+function matchFilter({ product: p, base: b }: CatalogRow, f: QueryFilter, featureDefs: FeatureDef[]): boolean {
+  const v = f.value.toLowerCase();
+  const has = (s: string) => s.toLowerCase().includes(v);
+  switch (f.field) {
+    case "color":
+      return has(p.color);
+    case "size":
+      return canonicalSize(p.size) === canonicalSize(f.value);
+    case "brand":
+      return has(b.brand);
+    case "category":
+      return b.category.toLowerCase() === v || (CATEGORY_LABEL[b.category] ?? "").toLowerCase() === v;
+    case "tier":
+      return b.tier.toLowerCase() === v;
+    case "organic":
+      return b.organic === toBool(v);
+    case "usa_made":
+      return b.usa_made === toBool(v);
+    case "feature": {
+      const def = featureDefs.find((d) => d.code.toLowerCase() === v || d.label.toLowerCase() === v);
+      return !!def && baseHasFeature(b, def);
+    }
+    case "sku":
+      return has(p.sku);
+    case "base":
+      return b.code.toLowerCase() === v;
+    case "title":
+      return has(p.title);
+    case "price":
+      return comparePrice(b.retail_price, f.op, Number(f.value));
+  }
+}
+
+function matchTerm({ product: p, base: b }: CatalogRow, text: string): boolean {
+  const q = text.toLowerCase();
+  return [p.sku, p.title, p.color, p.size, b.code, b.label].some((s) => s.toLowerCase().includes(q));
+}
+
+function comparePrice(price: number, op: Comparison, n: number): boolean {
+  switch (op) {
+    case "<":
+      return price < n;
+    case "<=":
+      return price <= n;
+    case ">":
+      return price > n;
+    case ">=":
+      return price >= n;
+    default:
+      return Math.abs(price - n) < 0.005;
+  }
+}
+
+function toBool(v: string): boolean {
+  return v === "true" || v === "yes" || v === "1";
+}
+
+/* ---------- facets ---------- */
+
+export function facetValue(row: CatalogRow, field: FacetField): string {
+  switch (field) {
+    case "color":
+      return row.product.color;
+    case "size":
+      return row.product.size;
+    case "brand":
+      return row.base.brand;
+    case "category":
+      return row.base.category;
+    case "tier":
+      return row.base.tier;
+  }
+}
+
+export function computeFacets(rows: CatalogRow[]): Facets {
+  const facets = {} as Facets;
+  for (const field of FACET_FIELDS) {
+    const counts = new Map<string, number>();
+    for (const row of rows) {
+      const v = facetValue(row, field);
+      if (v) counts.set(v, (counts.get(v) ?? 0) + 1);
+    }
+    const list = Array.from(counts, ([value, count]) => ({ value, count }));
+    list.sort(field === "size" ? (a, b) => compareSizes(a.value, b.value) : (a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    facets[field] = list;
+  }
+  return facets;
+}
+
+// Appends (or removes) a field:value filter, quoting values with spaces. Only a
+// whole token counts, so color:black doesn't match inside color:blackish.
+export function toggleFilterInQuery(q: string, field: FacetField, value: string): string {
+  const token = /\s/.test(value) ? `${field}:"${value}"` : `${field}:${value}`;
+  const whole = new RegExp(`(^|\\s)${token.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?=\\s|$)`);
+  if (whole.test(q)) return q.replace(whole, "$1").replace(/\s{2,}/g, " ").trim();
+  return `${q.trim()} ${token}`.trim();
+}
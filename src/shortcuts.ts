@@ -0,0 +1,25 @@
+// src/shortcuts.ts
+// Keyboard shortcuts for the catalog view; the palette footer lists them.
+
+export const SHORTCUTS: [keys: string, action: string][] = [
+  ["Ctrl/⌘ K", "Command palette"],
+  ["← →", "Previous / next garment type"],
+  ["↑ ↓", "Previous / next base"],
+  ["1–9", "Toggle feature chip"],
+  ["D", "Copy description"],
+  ["C", "Copy all"],
+];
+
+// Single-key shortcuts stay out of the way while the user is typing
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+// Next/previous item in a list, wrapping around; `current` may be missing
+export function stepThrough<T>(list: T[], current: T | null, delta: 1 | -1): T | null {
+  if (list.length === 0) return null;
+  const i = current === null ? -1 : list.indexOf(current);
+  if (i === -1) return list[delta === 1 ? 0 : list.length - 1];
+  return list[(i + delta + list.length) % list.length];
+}
@@ -0,0 +1,38 @@
+// src/sizes.ts
+// Canonical apparel size order, so size lists never follow CSV order.
+
+export const SIZE_ORDER = ["XXS", "XS", "S", "M", "L", "XL", "2XL", "3XL", "4XL", "5XL", "6XL"];
+
+// Spellings the shop uses for the same size
+const SIZE_ALIASES: Record<string, string> = {
+  XXL: "2XL",
+  XXXL: "3XL",
+  XXXXL: "4XL",
+  XXXXXL: "5XL",
+  "2X": "2XL",
+  "3X": "3XL",
+  "4X": "4XL",
+  "5X": "5XL",
+  SMALL: "S",
+  MEDIUM: "M",
+  LARGE: "L",
+};
+
+export function canonicalSize(size: string): string {
+  const s = size.trim().toUpperCase();
+  return SIZE_ALIASES[s] ?? s;
+}
+
+function rank(size: string): number {
+  const i = SIZE_ORDER.indexOf(canonicalSize(size));
+  return i === -1 ? SIZE_ORDER.length : i;
+}
+
+// Known sizes in canonical order, then anything else (one-size, kids, …) alphabetically
+export function compareSizes(a: string, b: string): number {
+  return rank(a) - rank(b) || a.localeCompare(b, undefined, { numeric: true });
+}
+
+export function sortSizes(sizes: Iterable<string>): string[] {
+  return Array.from(new Set(sizes)).sort(compareSizes);
+}
@@ -0,0 +1,138 @@
+// src/snapshotDiff.ts
+// "What's new": the catalog as last seen in this browser vs. what the nightly
+// sweep produced since. Snapshots live in localStorage; a new one is taken
+// whenever products.csv or descriptions.json content changes.
+import type { Descriptions } from "./loadDescriptions";
+import type { Product } from "./loadProducts";
+
+type SnapshotVariant = Pick<Product, "base_code" | "image_src" | "enabled">;
+
+export type CatalogSnapshot = {
+  hash: string;
+  seenAt: string; // when this browser first saw this content
+  products: Record<string, SnapshotVariant>; // sku -> variant
+  descriptions: Descriptions;
+};
+
+export type ImageChange = { sku: string; from: string; to: string };
+
+export type BaseChanges = {
+  code: string;
+  added: string[];    // SKUs
+  removed: string[];  // SKUs
+  disabled: string[]; // SKUs that were enabled before
+  images: ImageChange[];
+  description: { before: string; after: string } | null;
+};
+
+export type SnapshotPair = { previous: CatalogSnapshot | null; current: CatalogSnapshot };
+
+const SNAPSHOT_KEY = "af-frontend.catalog-snapshots";
+
+export function takeSnapshot(products: Product[], descriptions: Descriptions): CatalogSnapshot {
+  const variants: Record<string, SnapshotVariant> = {};
+  for (const p of products) variants[p.sku] = { base_code: p.base_code, image_src: p.image_src, enabled: p.enabled };
+  return {
+    hash: hashText(JSON.stringify([variants, descriptions])),
+    seenAt: new Date().toISOString(),
+    products: variants,
+    descriptions,
+  };
+}
+
+// Stores `next` as the current snapshot; the one it replaces becomes "previous".
+// Reloading with unchanged data keeps the existing pair, so the diff survives reloads.
+export function recordSnapshot(next: CatalogSnapshot): SnapshotPair {
+  const stored = readPair();
+  let pair: SnapshotPair;
+  if (!stored) pair = { previous: null, current: next };
+  else if (stored.current.hash === next.hash) pair = stored;
+  else pair = { previous: stored.current, current: next };
+  writePair(pair);
+  return pair;
+}
+
+// "Mark all as seen": drop the previous snapshot so the diff is empty
+export function acknowledgeSnapshot(pair: SnapshotPair): SnapshotPair {
+  const next = { previous: null, current: pair.current };
+  writePair(next);
+  return next;
+}
+
+function readPair(): SnapshotPair | null {
+  try {
+    const raw = localStorage.getItem(SNAPSHOT_KEY);
+    const pair = raw ? (JSON.parse(raw) as SnapshotPair) : null;
+    return pair?.current?.hash ? pair : null;
+  } catch {
+    return null;
+  }
+}
+
+function writePair(pair: SnapshotPair) {
+  try {
+    localStorage.setItem(SNAPSHOT_KEY, JSON.stringify(pair));
+  } catch {
+    // storage full or disabled: the diff only lasts this session
+  }
+}
+
+/* ---------- diff ---------- */
+
+export function diffSnapshots(prev: CatalogSnapshot, next: CatalogSnapshot): BaseChanges[] {
+  const byBase = new Map<string, BaseChanges>();
+  const entry = (code: string) => {
+    let c = byBase.get(code);
+    if (!c) {
+      c = { code, added: [], removed: [], disabled: [], images: [], description: null };
+      byBase.set(code, c);
+    }
+    return c;
+  };
+
+  for (const [sku, v] of Object.entries(next.products)) {
+    const old = prev.products[sku];
+    if (!old) {
+      entry(v.base_code).added.push(sku);
+      continue;
+    }
+    if (old.enabled && !v.enabled) entry(v.base_code).disabled.push(sku);
+    if (old.image_src !== v.image_src) entry(v.base_code).images.push({ sku, from: old.image_src, to: v.image_src });
+  }
+  for (const [sku, v] of Object.entries(prev.products)) {
+    if (!(sku in next.products)) entry(v.base_code).removed.push(sku);
+  }
+
+  // descriptions.json is optional: an empty side means it failed to load, not that every description went away
+  const bothDescribed = Object.keys(prev.descriptions).length > 0 && Object.keys(next.descriptions).length > 0;
+  const codes = bothDescribed ? new Set([...Object.keys(prev.descriptions), ...Object.keys(next.descriptions)]) : [];
+  for (const code of codes) {
+    const before = prev.descriptions[code] ?? "";
+    const after = next.descriptions[code] ?? "";
+    if (before.trim() !== after.trim()) entry(code).description = { before, after };
+  }
+
+  return Array.from(byBase.values()).sort((a, b) => a.code.localeCompare(b.code));
+}
+
+export function changeCount(c: BaseChanges): number {
+  return c.added.length + c.removed.length + c.disabled.length + c.images.length + (c.description ? 1 : 0);
+}
+
+// Lines only in `before` (-) and only in `after` (+); descriptions are short, so no LCS
+export function lineDiff(before: string, after: string): { line: string; op: "-" | "+" }[] {
+  const split = (s: string) => s.split("\n").map((l) => l.trim()).filter(Boolean);
+  const a = split(before);
+  const b = split(after);
+  return [
+    ...a.filter((l) => !b.includes(l)).map((line) => ({ line, op: "-" as const })),
+    ...b.filter((l) => !a.includes(l)).map((line) => ({ line, op: "+" as const })),
+  ];
+}
+
+// djb2; only used to notice that content changed
+function hashText(s: string): string {
+  let h = 5381;
+  for (let i = 0; i < s.length; i++) h = ((h << 5) + h + s.charCodeAt(i)) | 0;
+  return (h >>> 0).toString(16);
+}
@@ -0,0 +1,20 @@
+import type { CSSProperties } from "react";
+
+/* ---------- button styles ---------- */
+
+export const primaryBtn: CSSProperties = {
+  padding: "8px 12px",
+  borderRadius: 12,
+  border: "1px solid #111",
+  background: "#111",
+  color: "#fff",
+  cursor: "pointer",
+};
+export const secondaryBtn: CSSProperties = {
+  padding: "8px 12px",
+  borderRadius: 12,
+  border: "1px solid #ddd",
+  background: "#fff",
+  color: "#111",
+  cursor: "pointer",
+};
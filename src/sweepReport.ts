@@ -0,0 +1,38 @@
+// src/sweepReport.ts
+// sweep_report.json, written next to meta.json by the nightly sweep
+// (scripts/sweep): how each Shopify product was matched to a base, and what
+// was skipped or ambiguous.
+import { fetchDataJSON } from "./dataCache";
+
+// Which alias produced a match, strongest first
+export type AliasRule = "explicit" | "code" | "after_underscore" | "brand_stripped";
+
+export const ALIAS_RULE_LABEL: Record<AliasRule, string> = {
+  explicit: "base_aliases.csv",
+  code: "full base code",
+  after_underscore: "part after last _",
+  brand_stripped: "brand prefix stripped",
+};
+
+export type TagMatch = { tag: string; base_code: string; rule: AliasRule };
+
+export type ReportProduct = { product_id: number; title: string; handle: string };
+
+export type SweepReport = {
+  generated_at: string;
+  products_read: number;
+  variants_written: number;
+  matched: (ReportProduct & TagMatch)[];
+  skipped: (ReportProduct & { tags: string })[];
+  ambiguous: (ReportProduct & { chosen: TagMatch; candidates: TagMatch[] })[];
+  alias_collisions: { alias: string; base_codes: string[]; resolution: string }[];
+};
+
+// Non-fatal: older data folders have no report
+export async function loadSweepReport(): Promise<SweepReport | null> {
+  try {
+    return await fetchDataJSON<SweepReport>("/data/sweep_report.json");
+  } catch {
+    return null;
+  }
+}
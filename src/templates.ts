@@ -0,0 +1,78 @@
+// src/templates.ts
+// Copy-block templates per sales channel, loaded from /data/templates.json.
+//
+// Placeholders look like {{name}} or {{name|fallback text}}; the fallback is
+// used when the value is empty. Unknown placeholders are left in place so a
+// typo is visible in the preview.
+import { fetchDataJSON } from "./dataCache";
+
+export type ChannelTemplate = {
+  label: string;
+  template: string;
+};
+
+export type BaseOverride = {
+  description?: string;              // used when descriptions.json has nothing for the base
+  channels?: Record<string, string>; // replaces the channel template for this base only
+};
+
+export type Templates = {
+  default_channel: string;
+  channels: Record<string, ChannelTemplate>;
+  fallback_description: string;
+  base_overrides: Record<string, BaseOverride>;
+};
+
+export type TemplateContext = Record<string, string>;
+
+// Matches what the copy block printed before templates existed.
+export const DEFAULT_TEMPLATES: Templates = {
+  default_channel: "shopify",
+  channels: {
+    shopify: {
+      label: "Shopify",
+      template:
+        "Base Product Name: {{label}}\n" +
+        "Base Product Code: {{code}}\n" +
+        "Retail Price: ${{retail_price}}\n" +
+        "Tier: {{tier_label}}\n" +
+        "Tags used: {{tags}}\n\n" +
+        "{{description}}",
+    },
+  },
+  fallback_description: "- {{fit_notes|Comfortable everyday fit}}\n- Brand: {{brand}} {{model_name}}",
+  base_overrides: {},
+};
+
+export async function loadTemplates(): Promise<Templates> {
+  try {
+    const json = await fetchDataJSON<Partial<Templates>>("/data/templates.json");
+    const channels = { ...DEFAULT_TEMPLATES.channels, ...(json.channels ?? {}) };
+    return {
+      default_channel:
+        json.default_channel && json.default_channel in channels
+          ? json.default_channel
+          : DEFAULT_TEMPLATES.default_channel,
+      channels,
+      fallback_description: json.fallback_description ?? DEFAULT_TEMPLATES.fallback_description,
+      base_overrides: json.base_overrides ?? {},
+    };
+  } catch {
+    return DEFAULT_TEMPLATES;
+  }
+}
+
+export function renderTemplate(template: string, ctx: TemplateContext): string {
+  return template.replace(/\{\{\s*([a-z_]+)\s*(?:\|([^}]*))?\}\}/gi, (whole, name: string, fallback?: string) => {
+    if (!(name in ctx)) return whole;
+    return ctx[name] || (fallback ?? "");
+  });
+}
+
+// Picks the template for a channel, honouring per-base overrides.
+export function channelTemplate(templates: Templates, channel: string, baseCode: string): string {
+  const override = templates.base_overrides[baseCode]?.channels?.[channel];
+  if (override) return override;
+  const tpl = templates.channels[channel] ?? templates.channels[templates.default_channel];
+  return tpl?.template ?? DEFAULT_TEMPLATES.channels.shopify.template;
+}
@@ -0,0 +1,141 @@
+// src/uniformity.ts
+// Uniformity audit: every Shopify product on a base is checked against that
+// base's standard offering in /data/base_standards.json:
+//
+//   "CC1717": {
+//     "sizes": ["S", "M", …],            required, and the only sizes allowed
+//     "colors": ["True Navy", "Ivory"],  required colors
+//     "editions": { "Dark": { "colors": […] } },  per-edition overrides
+//     "only_listed_colors": true,        flag colors outside the list
+//     "title_format": "{design} Unisex garment-dyed heavyweight t-shirt"
+//   }
+//
+// A " - <Name> Edition" suffix is always allowed after the title format.
+import { fetchDataJSON } from "./dataCache";
+import { designOf } from "./designs";
+import type { Product } from "./loadProducts";
+import { canonicalSize, sortSizes } from "./sizes";
+
+export type OfferingRule = { colors?: string[]; sizes?: string[] };
+
+export type BaseStandard = OfferingRule & {
+  editions?: Record<string, OfferingRule>;
+  only_listed_colors?: boolean;
+  title_format?: string;
+};
+
+export type Standards = Record<string, BaseStandard>; // base code -> standard
+
+export type AuditKind = "missing_size" | "missing_color" | "extra_size" | "extra_color" | "title_format";
+
+export const AUDIT_KIND_LABEL: Record<AuditKind, string> = {
+  missing_size: "Missing size",
+  missing_color: "Missing color",
+  extra_size: "Off-standard size",
+  extra_color: "Off-standard color",
+  title_format: "Title format",
+};
+
+export type AuditFinding = {
+  base_code: string;
+  product: string; // Shopify product title (before " — ")
+  design: string;
+  edition: string;
+  kind: AuditKind;
+  detail: string;
+  skus: string[];
+};
+
+// Non-fatal: without the file there is simply nothing to audit against
+export async function loadStandards(): Promise<Standards> {
+  try {
+    const json = await fetchDataJSON<Standards>("/data/base_standards.json");
+    return json && typeof json === "object" ? json : {};
+  } catch {
+    return {};
+  }
+}
+
+// Variants of one Shopify product, by product_id when the sweep wrote it, else by title
+export function groupByShopifyProduct(products: Product[]): Product[][] {
+  const groups = new Map<string, Product[]>();
+  for (const p of products) {
+    const key = p.product_id || p.title.split(" — ")[0].trim();
+    const list = groups.get(key);
+    if (list) list.push(p);
+    else groups.set(key, [p]);
+  }
+  return Array.from(groups.values());
+}
+
+export function auditBase(code: string, standard: BaseStandard, products: Product[]): AuditFinding[] {
+  const findings: AuditFinding[] = [];
+  const titleRe = standard.title_format ? titleFormatRegex(standard.title_format) : null;
+
+  for (const variants of groupByShopifyProduct(products.filter((p) => p.base_code === code))) {
+    const product = variants[0].title.split(" — ")[0].trim();
+    const { name: design, edition } = designOf(variants[0].title);
+    const rule = { ...standard, ...(edition ? standard.editions?.[edition] : undefined) };
+    const push = (kind: AuditKind, detail: string, skus: string[] = []) =>
+      findings.push({ base_code: code, product, design, edition, kind, detail, skus });
+
+    const colors = Array.from(new Set(variants.map((v) => v.color).filter(Boolean)));
+    const sizesOf = (color: string) =>
+      new Set(variants.filter((v) => v.color === color).map((v) => canonicalSize(v.size)));
+
+    // ---- required colors / sizes ----
+    for (const c of rule.colors ?? []) {
+      if (!colors.includes(c)) push("missing_color", `${c} not offered`);
+    }
+    for (const s of rule.sizes ?? []) {
+      const lacking = colors.filter((c) => !sizesOf(c).has(canonicalSize(s)));
+      if (lacking.length === 0) continue;
+      push("missing_size", lacking.length === colors.length ? `${s} not offered` : `${s} missing for ${lacking.join(", ")}`);
+    }
+
+    // ---- variants outside the standard ----
+    if (rule.sizes?.length) {
+      const allowed = new Set(rule.sizes.map(canonicalSize));
+      const extra = variants.filter((v) => v.size && !allowed.has(canonicalSize(v.size)));
+      if (extra.length) {
+        push("extra_size", `sizes ${sortSizes(extra.map((v) => v.size)).join(", ")} are not in the standard`, skus(extra));
+      }
+    }
+    if (standard.only_listed_colors && rule.colors?.length) {
+      const extra = variants.filter((v) => v.color && !rule.colors!.includes(v.color));
+      if (extra.length) {
+        const names = Array.from(new Set(extra.map((v) => v.color)));
+        push("extra_color", `colors ${names.join(", ")} are not in the standard`, skus(extra));
+      }
+    }
+
+    // ---- title ----
+    if (titleRe && !titleRe.test(product)) {
+      push("title_format", `expected "${standard.title_format!.replace("{design}", design)}"`, skus(variants));
+    }
+  }
+  return findings;
+}
+
+export function auditCatalog(standards: Standards, products: Product[]): AuditFinding[] {
+  return Object.entries(standards).flatMap(([code, standard]) => auditBase(code, standard, products));
+}
+
+// Worklist for whoever fixes the listings in Shopify
+export function findingsToRows(findings: AuditFinding[]): string[][] {
+  return [
+    ["base_code", "product", "design", "edition", "issue", "detail", "skus"],
+    ...findings.map((f) => [f.base_code, f.product, f.design, f.edition, f.kind, f.detail, f.skus.join(" ")]),
+  ];
+}
+
+// "{design} Unisex Tee" -> /^(.+?) Unisex Tee(?: - \w+ Edition)?$/
+function titleFormatRegex(format: string): RegExp {
+  const [before, after = ""] = format.split("{design}");
+  const esc = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`^${esc(before)}(.+?)${esc(after)}(?: - \\w+ Edition)?$`);
+}
+
+function skus(list: Product[]): string[] {
+  return list.map((p) => p.sku);
+}
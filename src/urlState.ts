@@ -0,0 +1,60 @@
+// src/urlState.ts
+// The current selection as query params, so links and back/forward work:
+//   ?view=catalog&cat=crew&base=SS_SASU004&f=organic&q=Black
+//   ?view=compare&cmp=AS5081,CC6014,BC3501
+import type { BaseProduct } from "./loadBaseProducts";
+
+export type UrlState = {
+  view: string;
+  category: string | null;
+  base: string | null;
+  features: string[];
+  filter: string;
+  compare: string[];
+};
+
+export function readUrlState(search: string): UrlState {
+  const p = new URLSearchParams(search);
+  return {
+    view: p.get("view") || "catalog",
+    category: p.get("cat"),
+    base: p.get("base"),
+    features: (p.get("f") || "").split(",").filter(Boolean),
+    filter: p.get("q") || "",
+    compare: (p.get("cmp") || "").split(",").filter(Boolean),
+  };
+}
+
+export function writeUrlState(s: UrlState): string {
+  const p = new URLSearchParams();
+  if (s.view !== "catalog") p.set("view", s.view);
+  if (s.category) p.set("cat", s.category);
+  if (s.base) p.set("base", s.base);
+  if (s.features.length) p.set("f", [...s.features].sort().join(","));
+  if (s.filter) p.set("q", s.filter);
+  if (s.compare.length) p.set("cmp", s.compare.join(","));
+  const qs = p.toString();
+  return qs ? `?${qs}` : "";
+}
+
+export type ResolvedSelection = {
+  category: string | null;
+  base: string | null;
+  notice: string | null; // set when the link pointed at something no longer active
+};
+
+// Maps a (possibly stale) URL onto the active bases.
+export function resolveSelection(url: UrlState, bases: BaseProduct[]): ResolvedSelection {
+  const fromBase = url.base ? bases.find((b) => b.code === url.base) : undefined;
+  if (fromBase) return { category: fromBase.category, base: fromBase.code, notice: null };
+
+  const categoryOk = !!url.category && bases.some((b) => b.category === url.category);
+  const category = categoryOk ? url.category : (bases[0]?.category ?? null);
+  const first = bases.find((b) => b.category === category);
+
+  let notice: string | null = null;
+  if (url.base) notice = `Base ${url.base} from the link is no longer active — showing ${first?.code ?? "nothing"} instead.`;
+  else if (url.category && !categoryOk) notice = `Category "${url.category}" from the link has no active bases.`;
+
+  return { category, base: first?.code ?? null, notice };
+}